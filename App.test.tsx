@@ -0,0 +1,405 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { cleanup, render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from './App';
+import { createGeminiProvider, GeminiClient } from './services/geminiProvider';
+import { ptBR as t } from './i18n/pt-BR';
+import { MAX_VARIATIONS } from './utils/variations';
+import { encodeRecipeLink } from './utils/recipeImport';
+import { CANONICAL_UNITS } from './utils/units';
+
+const TEXT_MODEL = 'modelo-texto';
+const IMAGE_MODEL = 'modelo-imagem';
+
+const RECIPES = [
+  {
+    name: 'Omelete de Tomate',
+    totalTime: '15 minutos',
+    servings: 2,
+    ingredients: [{ quantity: 3, unit: 'un', item: 'Ovo' }, { quantity: 1, unit: 'un', item: 'Tomate' }],
+    instructions: ['Bata os ovos.', 'Junte o tomate e cozinhe.'],
+  },
+  {
+    name: 'Tomate Recheado',
+    totalTime: '25 minutos',
+    servings: 2,
+    ingredients: [{ quantity: 2, unit: 'un', item: 'Tomate' }, { quantity: 2, unit: 'un', item: 'Ovo' }],
+    instructions: ['Corte a tampa dos tomates.', 'Quebre um ovo em cada um e asse.'],
+  },
+];
+
+type GenerateParams = { model: string; contents: unknown };
+
+// Cliente falso do @google/genai: receitas em streaming, foto, detecções e nutrição sem rede
+const createFakeGenAI = () => {
+  let generated = 0;
+  // Alterna entre as receitas a cada pedido, como ideias diferentes
+  const recipe = vi.fn(async (): Promise<string> => JSON.stringify(RECIPES[generated++ % RECIPES.length]));
+  const scan = vi.fn(async (): Promise<string> => JSON.stringify([{ name: 'Cenoura', confidence: 0.9, box_2d: [100, 100, 500, 400] }]));
+
+  const generateContentStream = vi.fn(async (_params: GenerateParams) => {
+    const text = await recipe();
+    return (async function* () {
+      yield { text: text.slice(0, 30) };
+      yield { text: text.slice(30) };
+    })();
+  });
+
+  const generateContent = vi.fn(async ({ model, contents }: GenerateParams) => {
+    if (model === IMAGE_MODEL) {
+      return { candidates: [{ content: { parts: [{ inlineData: { data: 'iVBORw0KGgo=', mimeType: 'image/png' } }] } }] };
+    }
+    if (JSON.stringify(contents).includes('inlineData')) return { text: await scan() };
+    return { text: '[]' };
+  });
+
+  const client = { models: { generateContentStream, generateContent } } as unknown as GeminiClient;
+  return { client, recipe, scan, generateContentStream };
+};
+
+let genAI: ReturnType<typeof createFakeGenAI>;
+
+// O userEvent.setup() instala um clipboard próprio: os testes trocam navigator.clipboard depois dele
+const renderApp = () => {
+  const provider = createGeminiProvider({ apiKey: 'sem-rede', textModel: TEXT_MODEL, imageModel: IMAGE_MODEL }, genAI.client);
+  const user = userEvent.setup();
+  render(<App provider={provider} />);
+  return user;
+};
+
+const addIngredients = async (user: ReturnType<typeof userEvent.setup>, text: string) => {
+  await user.type(screen.getByPlaceholderText(t.pantry.placeholder), `${text}{Enter}`);
+};
+
+const generate = async (user: ReturnType<typeof userEvent.setup>) => {
+  await addIngredients(user, 'ovo, tomate');
+  await user.click(screen.getByRole('button', { name: t.home.create }));
+  await screen.findAllByRole('heading', { name: RECIPES[0].name });
+};
+
+// A região de avisos urgentes (role="alert") fica sempre na página; o que importa é o texto dentro dela
+const alertText = () => screen.queryAllByRole('alert').map(alert => alert.textContent).join('');
+
+// O botão de compartilhar só libera quando o link da receita fica pronto
+const shareButton = async () => {
+  const button = screen.getByRole('button', { name: t.actions.share }) as HTMLButtonElement;
+  await waitFor(() => expect(button.disabled).toBe(false));
+  return button;
+};
+
+const setNavigator = (key: string, value: unknown) =>
+  Object.defineProperty(navigator, key, { value, configurable: true, writable: true });
+
+beforeEach(() => {
+  localStorage.clear();
+  localStorage.setItem('oqta:settings', JSON.stringify({ language: 'pt-BR' }));
+  genAI = createFakeGenAI();
+  // jsdom não tem IndexedDB: o livro de receitas só registra o erro
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+  setNavigator('clipboard', undefined);
+  setNavigator('share', undefined);
+  setNavigator('mediaDevices', undefined);
+});
+
+describe('fluxo da receita', () => {
+  it('gera a receita, pede variação e volta para uma nova busca', async () => {
+    const user = renderApp();
+    await generate(user);
+
+    const [{ contents, config }] = genAI.generateContentStream.mock.calls[0] as unknown as [GenerateParams & { config: { systemInstruction: string } }];
+    expect(contents).toContain('"name":"Ovo"');
+    expect(contents).toContain('"name":"Tomate"');
+    expect(config.systemInstruction).toContain('português do Brasil');
+    expect(screen.getByText('Junte o tomate e cozinhe.')).toBeTruthy();
+    expect(await screen.findByAltText(RECIPES[0].name)).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: t.recipe.tryAnother }));
+    await screen.findAllByRole('heading', { name: RECIPES[1].name });
+    const [{ contents: variationPrompt }] = genAI.generateContentStream.mock.calls[1] as unknown as [GenerateParams];
+    expect(variationPrompt).toContain(`"${RECIPES[0].name}"`);
+    expect(screen.getByRole('button', { name: t.variations.idea(1) })).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: t.variations.idea(1) }));
+    await screen.findAllByRole('heading', { name: RECIPES[0].name });
+
+    await user.click(screen.getByRole('button', { name: new RegExp(t.header.newSearch) }));
+    expect(screen.getByRole('heading', { name: t.home.title })).toBeTruthy();
+    expect(screen.queryByText(RECIPES[0].name)).toBeNull();
+    // A despensa continua para a próxima busca
+    expect(screen.getByTitle(t.common.remove('Ovo'))).toBeTruthy();
+  });
+
+  it('pede variação de uma receita do livro com os ingredientes salvos quando a despensa está vazia', async () => {
+    const user = renderApp();
+    await generate(user);
+    await user.click(screen.getByRole('button', { name: new RegExp(t.header.newSearch) }));
+    await user.click(screen.getByRole('button', { name: t.pantry.clear }));
+
+    await user.click(screen.getByRole('button', { name: t.header.cookbook }));
+    await user.click(screen.getByText(RECIPES[0].name));
+    await user.click(await screen.findByRole('button', { name: t.recipe.tryAnother }));
+
+    await screen.findAllByRole('heading', { name: RECIPES[1].name });
+    const [{ contents }] = genAI.generateContentStream.mock.calls[1] as unknown as [GenerateParams];
+    expect(contents).toContain('"name":"Ovo"');
+  });
+
+  it('desativa a variação de uma receita importada sem ingredientes na despensa', async () => {
+    const link = await encodeRecipeLink(RECIPES[0], window.location.href.split('#')[0]);
+    window.history.replaceState(null, '', link);
+    renderApp();
+
+    const button = await screen.findByRole('button', { name: t.recipe.variationNeedsIngredients });
+    expect((button as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it(`bloqueia novas ideias depois de ${MAX_VARIATIONS} variações`, async () => {
+    const user = renderApp();
+    await generate(user);
+
+    for (let i = 0; i < MAX_VARIATIONS; i++) {
+      await user.click(screen.getByRole('button', { name: t.recipe.tryAnother }));
+      await waitFor(() => expect(screen.getByRole('button', { name: t.variations.idea(i + 2) })).toBeTruthy());
+    }
+
+    const limit = await screen.findByRole('button', { name: t.recipe.variationLimit });
+    expect((limit as HTMLButtonElement).disabled).toBe(true);
+    expect(genAI.generateContentStream).toHaveBeenCalledTimes(MAX_VARIATIONS + 1);
+  });
+
+  it('mostra o erro e gera de novo ao tentar outra vez', async () => {
+    genAI.recipe.mockRejectedValueOnce(new Error('upstream fora do ar'));
+    const user = renderApp();
+    await addIngredients(user, 'ovo, tomate');
+    await user.click(screen.getByRole('button', { name: t.home.create }));
+
+    await waitFor(() => expect(alertText()).toContain(t.errors.generic));
+
+    await user.click(screen.getByRole('button', { name: t.common.retry }));
+    await screen.findAllByRole('heading', { name: RECIPES[0].name });
+    expect(alertText()).toBe('');
+  });
+
+  it('avisa quando o modelo devolve uma receita inválida', async () => {
+    genAI.recipe.mockResolvedValueOnce('{"name": "Receita sem nada"}');
+    const user = renderApp();
+    await addIngredients(user, 'ovo');
+    await user.click(screen.getByRole('button', { name: t.home.create }));
+
+    await waitFor(() => expect(alertText()).toContain(t.errors.invalidRecipe));
+  });
+});
+
+describe('despensa', () => {
+  it('edita o item sem aceitar nome vazio e só com unidades conhecidas', async () => {
+    const user = renderApp();
+    await addIngredients(user, 'ovo');
+    await user.click(screen.getByText('Ovo'));
+
+    const name = screen.getByPlaceholderText(t.pantry.ingredient);
+    await user.clear(name);
+    await user.tab();
+    expect(screen.getByTitle(t.common.remove('Ovo'))).toBeTruthy();
+
+    await user.clear(name);
+    await user.type(name, '  Ovo caipira  {Enter}');
+    expect(screen.getByTitle(t.common.remove('Ovo caipira'))).toBeTruthy();
+
+    const unit = screen.getByRole('combobox', { name: t.pantry.unit }) as HTMLSelectElement;
+    expect(Array.from(unit.options, option => option.value)).toEqual(['', ...CANONICAL_UNITS]);
+    await user.selectOptions(unit, 'dente');
+    expect(JSON.parse(localStorage.getItem('oqta:pantry')!)).toMatchObject([{ name: 'Ovo caipira', unit: 'dente' }]);
+  });
+});
+
+describe('scanner da câmera', () => {
+  const openScanner = async (user: ReturnType<typeof userEvent.setup>) => {
+    await user.click(screen.getByRole('button', { name: new RegExp(t.home.scan) }));
+  };
+
+  it('explica quando o navegador não tem câmera', async () => {
+    const user = renderApp();
+    await openScanner(user);
+
+    expect(await screen.findByText(t.scanner.cameraUnavailable)).toBeTruthy();
+    expect((screen.getByTitle(t.scanner.takePhoto) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('explica quando a permissão da câmera é negada', async () => {
+    setNavigator('mediaDevices', { getUserMedia: vi.fn().mockRejectedValue(new DOMException('negado', 'NotAllowedError')) });
+    const user = renderApp();
+    await openScanner(user);
+
+    expect(await screen.findByText(t.scanner.cameraUnavailable)).toBeTruthy();
+  });
+
+  it('marca a foto que falhou, permite tentar de novo e desliga a câmera ao sair', async () => {
+    const stop = vi.fn();
+    setNavigator('mediaDevices', { getUserMedia: vi.fn().mockResolvedValue({ getTracks: () => [{ stop }] }) });
+    vi.spyOn(HTMLVideoElement.prototype, 'videoWidth', 'get').mockReturnValue(64);
+    vi.spyOn(HTMLVideoElement.prototype, 'videoHeight', 'get').mockReturnValue(48);
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({
+      drawImage: vi.fn(),
+      getImageData: (_x: number, _y: number, width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4) }),
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/jpeg;base64,AAAA');
+    genAI.scan.mockRejectedValueOnce(new Error('foto ilegível'));
+
+    const user = renderApp();
+    await openScanner(user);
+    await user.click(screen.getByTitle(t.scanner.takePhoto));
+    await user.click(screen.getByTitle(t.scanner.review));
+
+    expect(await screen.findByText(t.scanner.failed)).toBeTruthy();
+    expect(stop).toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: new RegExp(t.scanner.tryAgain) }));
+    await screen.findByRole('button', { name: /Cenoura/ });
+    await user.click(screen.getByRole('button', { name: new RegExp(t.scanner.add(1)) }));
+
+    expect(screen.getByTitle(t.common.remove('Cenoura'))).toBeTruthy();
+    expect(screen.queryByText(t.scanner.reviewTitle)).toBeNull();
+  });
+});
+
+describe('copiar e compartilhar', () => {
+  it('copia o Markdown da receita', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const user = renderApp();
+    setNavigator('clipboard', { writeText });
+    await generate(user);
+
+    await user.click(screen.getByTitle(t.actions.copyMarkdownTitle));
+    expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/^# 🍳 Omelete de Tomate\n/));
+    expect(await screen.findByText(t.actions.copied)).toBeTruthy();
+  });
+
+  it('usa o método antigo de cópia sem a API de clipboard e avisa se ele também falhar', async () => {
+    const execCommand = vi.fn().mockReturnValueOnce(true).mockReturnValueOnce(false);
+    Object.defineProperty(document, 'execCommand', { value: execCommand, configurable: true });
+    const user = renderApp();
+    setNavigator('clipboard', undefined);
+    await generate(user);
+
+    await user.click(screen.getByTitle(t.actions.copyMarkdownTitle));
+    expect(execCommand).toHaveBeenCalledWith('copy');
+    expect(await screen.findByText(t.actions.copied)).toBeTruthy();
+
+    await user.click(screen.getByTitle(t.actions.copyMarkdownTitle));
+    await waitFor(() => expect(alertText()).toContain(t.actions.copyFailed));
+  });
+
+  it('compartilha o texto com o link que abre a receita', async () => {
+    const share = vi.fn().mockResolvedValue(undefined);
+    setNavigator('share', share);
+    const user = renderApp();
+    await generate(user);
+
+    await user.click(await shareButton());
+    await waitFor(() => expect(share).toHaveBeenCalled());
+    const [data] = share.mock.calls[0];
+    expect(data.title).toBe(t.actions.shareTitle(RECIPES[0].name));
+    expect(data.text).toContain('## 🛒');
+    expect(data.url).toMatch(/#recipe=/);
+  });
+
+  it('copia texto e link quando o navegador não compartilha', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const user = renderApp();
+    setNavigator('clipboard', { writeText });
+    await generate(user);
+
+    await user.click(await shareButton());
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/\n\nhttp:\/\/.*#recipe=/)));
+  });
+
+  it('não trata o cancelamento do menu de compartilhar como erro', async () => {
+    setNavigator('share', vi.fn().mockRejectedValue(new DOMException('cancelado', 'AbortError')));
+    const user = renderApp();
+    await generate(user);
+
+    await user.click(await shareButton());
+    expect(alertText()).toBe('');
+  });
+});
+
+describe('acessibilidade', () => {
+  it('anuncia a receita pronta para leitores de tela', async () => {
+    const user = renderApp();
+    await generate(user);
+
+    const announcements = screen.getAllByRole('status').map(status => status.textContent);
+    expect(announcements).toContain(t.announcements.recipeReady(RECIPES[0].name));
+  });
+
+  it('gera, pede variação e copia pelos atalhos de teclado', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    const user = renderApp();
+    setNavigator('clipboard', { writeText });
+    await addIngredients(user, 'ovo, tomate');
+
+    await user.keyboard('{Control>}{Enter}{/Control}');
+    await screen.findAllByRole('heading', { name: RECIPES[0].name });
+
+    await user.keyboard('{Alt>}n{/Alt}');
+    await screen.findAllByRole('heading', { name: RECIPES[1].name });
+
+    await user.keyboard('{Alt>}c{/Alt}');
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith(expect.stringMatching(/^# 🍳 Tomate Recheado\n/)));
+    expect(screen.getAllByRole('status').map(status => status.textContent).join('')).toContain(t.announcements.copied);
+  });
+
+  it('prende o foco no diálogo da câmera e devolve ao fechar com Escape', async () => {
+    const user = renderApp();
+    const scanButton = screen.getByRole('button', { name: new RegExp(t.home.scan) });
+    await user.click(scanButton);
+
+    const dialog = screen.getByRole('dialog', { name: t.scanner.title });
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(document.activeElement).toBe(dialog);
+    for (let i = 0; i < 5; i++) {
+      await user.tab();
+      expect(dialog.contains(document.activeElement)).toBe(true);
+    }
+
+    await user.keyboard('{Escape}');
+    expect(screen.queryByRole('dialog')).toBeNull();
+    expect(document.activeElement).toBe(scanButton);
+  });
+
+  it('pede confirmação no aviso antes de apagar do livro de receitas', async () => {
+    const user = renderApp();
+    await generate(user);
+    await user.click(screen.getByRole('button', { name: t.header.cookbook }));
+
+    await user.click(screen.getByRole('button', { name: new RegExp(t.cookbook.delete) }));
+    const toast = screen.getByText(t.cookbook.confirmDelete(RECIPES[0].name)).parentElement!;
+    const confirm = within(toast).getByRole('button', { name: t.cookbook.delete });
+    expect(document.activeElement).toBe(confirm);
+    expect(screen.getByText(RECIPES[0].name)).toBeTruthy();
+
+    await user.click(confirm);
+    expect(screen.queryByText(RECIPES[0].name)).toBeNull();
+    expect(screen.queryByText(t.cookbook.confirmDelete(RECIPES[0].name))).toBeNull();
+  });
+
+  it('aumenta o texto e liga o alto contraste pelas configurações', async () => {
+    const user = renderApp();
+    await user.click(screen.getByRole('button', { name: t.settings.title }));
+
+    await user.click(screen.getByRole('button', { name: t.settings.textSizes.larger }));
+    await user.click(screen.getByRole('button', { name: t.settings.highContrast }));
+
+    expect(document.documentElement.style.fontSize).toBe('125%');
+    expect(document.documentElement.classList.contains('high-contrast')).toBe(true);
+    expect(screen.getByRole('button', { name: t.settings.highContrast }).getAttribute('aria-pressed')).toBe('true');
+    expect(JSON.parse(localStorage.getItem('oqta:settings')!)).toMatchObject({ textSize: 'larger', highContrast: true });
+  });
+});
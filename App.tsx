@@ -0,0 +1,864 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { 
+  Utensils, 
+  Clock, 
+  Flame, 
+  ArrowLeft,
+  Loader2,
+  Sparkles,
+  Copy,
+  RotateCw,
+  ChefHat,
+  Refrigerator,
+  CheckCircle2,
+  Share2,
+  FileDown,
+  FileJson,
+  FileText,
+  Camera,
+  AlertTriangle,
+  BookOpen,
+  Star,
+  ImageIcon,
+  PlayCircle,
+  Users,
+  Minus,
+  Plus,
+  CalendarDays,
+  WifiOff
+} from 'lucide-react';
+import { PlannedMeal, QueuedGeneration, Recipe, RecipeVariation, SavedRecipe } from './types';
+import { recipeProvider, generateCheckedRecipe, estimateRecipeNutrition, planMeals, isAbortError, isNetworkError, ProxyError, RecipeProvider } from './services';
+import { RecipeValidationError } from './utils/recipeValidation';
+import { MAX_SERVINGS, scaleRecipe } from './utils/servings';
+import { formatIngredient } from './utils/units';
+import { checkRecipeAgainstProfile, summarizeProfile } from './utils/profile';
+import { scheduleMeals } from './utils/mealPlan';
+import { buildRecipeDocument, downloadBlob, recipeFileName, shareOrDownload, toRecipeMarkdown, toSchemaRecipe } from './utils/recipeExport';
+import { addVariation, isVariationLimitReached } from './utils/variations';
+import { copyToClipboard } from './utils/clipboard';
+import { renderRecipeCard } from './utils/recipeCard';
+import { createRecipePdf } from './utils/recipePdf';
+import { encodeRecipeLink, parseRecipeFile } from './utils/recipeImport';
+import { parsePantryText } from './utils/pantry';
+import { usePantry } from './hooks/usePantry';
+import { useCookbook } from './hooks/useCookbook';
+import { useProfile } from './hooks/useProfile';
+import { useMealPlan } from './hooks/useMealPlan';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useGenerationQueue } from './hooks/useGenerationQueue';
+import { useSettings } from './hooks/useSettings';
+import { useSharedRecipeLink } from './hooks/useSharedRecipeLink';
+import { useToasts } from './hooks/useToasts';
+import { SHORTCUTS, useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { createI18n, describeProfileWarning, Messages } from './i18n';
+import { I18nProvider } from './i18n/I18nProvider';
+import { PantryEditor } from './components/PantryEditor';
+import { ErrorBanner } from './components/ErrorBanner';
+import { Cookbook } from './components/Cookbook';
+import { VariationTabs, VariationCompare } from './components/Variations';
+import { StreamingRecipe } from './components/StreamingRecipe';
+import { CookingMode } from './components/CookingMode';
+import { ProfilePanel } from './components/ProfilePanel';
+import { NutritionPanel } from './components/NutritionPanel';
+import { PantryScanner } from './components/PantryScanner';
+import { MealPlanner } from './components/MealPlanner';
+import { GenerationQueue } from './components/GenerationQueue';
+import { SettingsMenu } from './components/SettingsMenu';
+import { ImportMenu } from './components/ImportMenu';
+import { ToastProvider } from './components/Toasts';
+
+const describeGenerationError = (error: unknown, t: Messages) => {
+  if (error instanceof RecipeValidationError) return t.errors.invalidRecipe;
+  if (error instanceof ProxyError && error.code === 'rate_limited') return t.errors.rateLimited;
+  return t.errors.generic;
+};
+
+interface AppProps {
+  // Os testes trocam pelo provider do Gemini com um cliente falso
+  provider?: RecipeProvider;
+}
+
+export const App = ({ provider = recipeProvider }: AppProps) => {
+  const { settings, unitSystem, textSize, highContrast, updateSettings } = useSettings();
+  const i18n = createI18n(settings.language, unitSystem);
+  const { t, language } = i18n;
+  const pantry = usePantry();
+  const cookbook = useCookbook();
+  const { profile, updateProfile, toggle: toggleProfile } = useProfile();
+  const mealPlan = useMealPlan();
+  const online = useOnlineStatus();
+  const generationQueue = useGenerationQueue();
+  const toasts = useToasts();
+  const { showToast } = toasts;
+  const [runningQueueId, setRunningQueueId] = useState<string | null>(null);
+  const [queueReady, setQueueReady] = useState<SavedRecipe[]>([]);
+  const [view, setView] = useState<'home' | 'cookbook' | 'planner'>('home');
+  const [planProgress, setPlanProgress] = useState<{ done: number; total: number } | null>(null);
+  const [planError, setPlanError] = useState<string | null>(null);
+  // Receita aberta a partir do plano: o botão de voltar leva de volta a ele
+  const [openedFromPlan, setOpenedFromPlan] = useState(false);
+  // Todas as ideias geradas para a despensa atual; a primeira é a receita original
+  const [variations, setVariations] = useState<RecipeVariation[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [comparing, setComparing] = useState(false);
+  const [cooking, setCooking] = useState(false);
+  // Porções escolhidas no seletor; null mantém o rendimento original da receita
+  const [servings, setServings] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Receita parcial exibida enquanto a resposta chega em streaming
+  const [draft, setDraft] = useState<Partial<Recipe> | null>(null);
+  const [pendingImages, setPendingImages] = useState<string[]>([]);
+  const [pendingNutrition, setPendingNutrition] = useState<string[]>([]);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  // Exportação em andamento (PDF e card levam um instante para montar)
+  const [exporting, setExporting] = useState<'pdf' | 'card' | null>(null);
+  // Link da receita aberta, pronto antes do clique (o menu de compartilhar exige o gesto do usuário)
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; isVariation: boolean } | null>(null);
+  // Texto da região aria-live: leitores de tela ouvem o início e o fim da geração
+  const [announcement, setAnnouncement] = useState('');
+
+  const current = variations[activeIndex];
+  const baseRecipe = current?.recipe ?? null;
+  const recipe = baseRecipe && servings ? scaleRecipe(baseRecipe, servings) : baseRecipe;
+  const unlistedIngredients = current?.unlistedIngredients ?? [];
+  const profileWarnings = recipe ? checkRecipeAgainstProfile(recipe, profile) : [];
+  const variationLimitReached = isVariationLimitReached(variations);
+  const currentEntry = cookbook.entries.find(entry => entry.id === current?.entryId);
+  // Receita aberta do livro ou importada com a despensa vazia: a variação usa os ingredientes salvos com ela
+  const variationIngredients = pantry.items.length ? pantry.items : currentEntry?.ingredients ?? [];
+  const canVary = !variationLimitReached && variationIngredients.length > 0;
+  const imageLoading = !!current && pendingImages.includes(current.entryId);
+  const nutritionLoading = !!current && pendingNutrition.includes(current.entryId);
+
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const planAbortRef = useRef<AbortController | null>(null);
+  const queueRunningRef = useRef(false);
+
+  useEffect(() => {
+    setServings(null);
+  }, [current?.entryId]);
+
+  // Atualizar título da página para o nome da receita para facilitar salvamento em PDF
+  useEffect(() => {
+    if (recipe) {
+      document.title = t.common.recipeTitle(recipe.name);
+    } else {
+      document.title = t.common.appTitle;
+    }
+  }, [recipe, t]);
+
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+  }, [i18n.locale]);
+
+  useEffect(() => {
+    setShareLink(null);
+    if (!recipe) return;
+    let cancelled = false;
+    encodeRecipeLink(recipe, window.location.href.split('#')[0])
+      .then(link => { if (!cancelled) setShareLink(link); })
+      .catch(err => console.error("Share link failed", err));
+    return () => { cancelled = true; };
+  }, [baseRecipe, servings]);
+
+  const addScannedIngredients = (names: string[]) => {
+    pantry.addFromText(names.join('\n'));
+    setIsScannerOpen(false);
+  };
+
+  // A foto é gerada em segundo plano: a receita aparece na hora e a imagem entra quando ficar pronta
+  const loadImage = async (recipeData: Recipe, entryId: string) => {
+    setPendingImages(prev => [...prev, entryId]);
+    try {
+      const imageUrl = await provider.generateImage(recipeData);
+      if (!imageUrl) return;
+      setVariations(prev => prev.map(variation =>
+        variation.entryId === entryId ? { ...variation, recipe: { ...variation.recipe, imageUrl } } : variation
+      ));
+      cookbook.setImage(entryId, imageUrl);
+    } catch (e) {
+      console.error("Image gen failed", e);
+    } finally {
+      setPendingImages(prev => prev.filter(id => id !== entryId));
+    }
+  };
+
+  // Nutrientes também chegam depois: tabela local primeiro, modelo só para o que faltar
+  const loadNutrition = async (recipeData: Recipe, entryId: string) => {
+    setPendingNutrition(prev => [...prev, entryId]);
+    try {
+      const nutrition = await estimateRecipeNutrition(provider, recipeData);
+      setVariations(prev => prev.map(variation =>
+        variation.entryId === entryId ? { ...variation, recipe: { ...variation.recipe, nutrition } } : variation
+      ));
+      cookbook.setNutrition(entryId, nutrition);
+    } catch (e) {
+      console.error("Nutrition estimate failed", e);
+    } finally {
+      setPendingNutrition(prev => prev.filter(id => id !== entryId));
+    }
+  };
+
+  // Pedidos feitos offline rodam um por vez, na ordem, assim que a conexão volta
+  const runQueuedGeneration = async (item: QueuedGeneration) => {
+    queueRunningRef.current = true;
+    setRunningQueueId(item.id);
+    try {
+      const { recipe: recipeData } = await generateCheckedRecipe(provider, {
+        ingredients: item.ingredients,
+        profile: item.profile,
+        previousRecipes: [],
+        language: item.language,
+      });
+      const entry = cookbook.addRecipe(recipeData, item.ingredients, summarizeProfile(item.profile));
+      loadImage(recipeData, entry.id);
+      loadNutrition(recipeData, entry.id);
+      setQueueReady(prev => [...prev, entry]);
+      generationQueue.remove(item.id);
+    } catch (err) {
+      // A rede caiu de novo: o pedido continua na fila até o próximo "online"
+      if (isNetworkError(err)) return;
+      console.error("Queued generation error:", err);
+      setError({ message: describeGenerationError(err, t), isVariation: false });
+      generationQueue.remove(item.id);
+    } finally {
+      queueRunningRef.current = false;
+      setRunningQueueId(null);
+    }
+  };
+
+  const nextQueued = generationQueue.queue[0];
+  useEffect(() => {
+    if (!online || !nextQueued || queueRunningRef.current) return;
+    runQueuedGeneration(nextQueued);
+  }, [online, nextQueued?.id]);
+
+  const queueGeneration = () => {
+    generationQueue.enqueue(pantry.items, profile, language);
+    setError(null);
+  };
+
+  const openQueuedRecipe = (entry: SavedRecipe) => {
+    setQueueReady(prev => prev.filter(ready => ready.id !== entry.id));
+    openSavedRecipe(cookbook.entries.find(saved => saved.id === entry.id) ?? entry);
+  };
+
+  const generateRecipe = async (isVariation = false) => {
+    const ingredients = isVariation ? variationIngredients : pantry.items;
+    if (ingredients.length === 0) return;
+
+    // Sem internet: o pedido vai para a fila; variações dependem da receita na tela e não entram nela
+    if (!online) {
+      if (isVariation) setError({ message: t.errors.offlineVariation, isVariation });
+      else queueGeneration();
+      return;
+    }
+
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    
+    setLoading(true);
+    setDraft({});
+    setError(null);
+    setComparing(false);
+    setAnnouncement(t.common.cookingIdeas);
+
+    try {
+      const { recipe: recipeData, unlistedIngredients } = await generateCheckedRecipe(
+        provider,
+        {
+          ingredients,
+          profile,
+          previousRecipes: isVariation ? variations.map(variation => variation.recipe) : [],
+          language,
+        },
+        { signal: controller.signal, onProgress: setDraft }
+      );
+
+      const entry = cookbook.addRecipe(recipeData, ingredients, summarizeProfile(profile));
+      const variation: RecipeVariation = { recipe: recipeData, unlistedIngredients, entryId: entry.id };
+      const nextVariations = addVariation(variations, variation, isVariation);
+      setVariations(nextVariations);
+      setActiveIndex(nextVariations.length - 1);
+      setAnnouncement(t.announcements.recipeReady(recipeData.name));
+      loadImage(recipeData, entry.id);
+      loadNutrition(recipeData, entry.id);
+    } catch (err) {
+      // O erro é anunciado pelo próprio banner (role="alert")
+      setAnnouncement('');
+      if (controller.signal.aborted || isAbortError(err)) return;
+      if (!isVariation && isNetworkError(err)) {
+        queueGeneration();
+        return;
+      }
+      console.error("Generation error:", err);
+      setError({ message: describeGenerationError(err, t), isVariation });
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+        setLoading(false);
+        setDraft(null);
+      }
+    }
+  };
+
+  const cancelGeneration = () => generationAbortRef.current?.abort();
+
+  const showRecipe = (recipeData: Recipe, entryId: string, fromPlan = false) => {
+    setVariations([{ recipe: recipeData, unlistedIngredients: [], entryId }]);
+    // Receitas salvas antes do painel nutricional ganham a estimativa ao serem abertas
+    if (!recipeData.nutrition) loadNutrition(recipeData, entryId);
+    setActiveIndex(0);
+    setComparing(false);
+    setError(null);
+    setOpenedFromPlan(fromPlan);
+    setView('home');
+  };
+
+  const openSavedRecipe = (entry: SavedRecipe) => showRecipe(entry.recipe, entry.id);
+
+  // Receita de link, arquivo ou QR code: entra no livro de receitas e abre na hora
+  const importRecipe = (recipeData: Recipe) => {
+    cancelGeneration();
+    const entry = cookbook.addRecipe(recipeData, [], '');
+    setIsScannerOpen(false);
+    showRecipe(recipeData, entry.id);
+    if (!recipeData.imageUrl) loadImage(recipeData, entry.id);
+  };
+
+  useSharedRecipeLink(importRecipe, () => showToast({ message: t.import.invalidLink, tone: 'error' }));
+
+  const importRecipeFile = (text: string) => {
+    try {
+      importRecipe(parseRecipeFile(text));
+    } catch (err) {
+      console.error("Recipe import failed", err);
+      showToast({ message: t.import.invalidRecipe, tone: 'error' });
+    }
+  };
+
+  const importListFile = (text: string) => {
+    const items = parsePantryText(text);
+    if (!items.length) {
+      showToast({ message: t.import.emptyList, tone: 'error' });
+      return;
+    }
+    pantry.addItems(items);
+  };
+
+  const openPlannedMeal = (meal: PlannedMeal) => {
+    const entry = cookbook.entries.find(saved => saved.id === meal.entryId);
+    showRecipe(entry?.recipe ?? meal.recipe, meal.entryId, true);
+  };
+
+  const startNewSearch = () => {
+    cancelGeneration();
+    setVariations([]);
+    setActiveIndex(0);
+    setComparing(false);
+    setError(null);
+    setOpenedFromPlan(false);
+    setView('home');
+  };
+
+  const backToPlan = () => {
+    startNewSearch();
+    setView('planner');
+  };
+
+  // Cada refeição entra no plano (e no livro de receitas) assim que fica pronta
+  const createMealPlan = async (count: number, mealsPerDay: number) => {
+    const controller = new AbortController();
+    planAbortRef.current = controller;
+    const slots = scheduleMeals(count, mealsPerDay);
+    mealPlan.clear();
+    setPlanError(null);
+    setPlanProgress({ done: 0, total: count });
+
+    try {
+      await planMeals(provider, pantry.items, count, profile, {
+        signal: controller.signal,
+        language,
+        onMeal: ({ recipe: recipeData, ingredients, usage }, index) => {
+          const entry = cookbook.addRecipe(recipeData, ingredients, summarizeProfile(profile));
+          mealPlan.addMeal({ id: crypto.randomUUID(), ...slots[index], recipe: recipeData, entryId: entry.id, usage, cooked: false });
+          loadNutrition(recipeData, entry.id);
+          setPlanProgress({ done: index + 1, total: count });
+        },
+      });
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error("Meal plan error:", err);
+      setPlanError(describeGenerationError(err, t));
+    } finally {
+      if (planAbortRef.current === controller) {
+        planAbortRef.current = null;
+        setPlanProgress(null);
+      }
+    }
+  };
+
+  // Marcar como feita dá baixa na despensa; desmarcar devolve os ingredientes
+  const toggleMealCooked = (meal: PlannedMeal) => {
+    if (meal.cooked) pantry.restore(meal.usage);
+    else pantry.consume(meal.usage);
+    mealPlan.setCooked(meal.id, !meal.cooked);
+  };
+
+  const keepVariation = (index: number) => {
+    setActiveIndex(index);
+    setComparing(false);
+  };
+
+
+  const getMarkdownRecipe = () => (recipe ? toRecipeMarkdown(recipe, i18n) : "");
+
+  // Sem a API de clipboard (página sem HTTPS) a cópia usa o método antigo; se nada funcionar, avisa
+  const copyText = async (text: string) => {
+    if (!(await copyToClipboard(text))) {
+      showToast({ message: t.actions.copyFailed, tone: 'error' });
+      return;
+    }
+    showToast({ message: t.announcements.copied, tone: 'success' });
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const copyAsMarkdown = () => copyText(getMarkdownRecipe());
+
+  // O link abre a receita direto no app de quem recebe; o botão só libera depois que ele fica pronto
+  const shareRecipe = async () => {
+    if (!shareLink) return;
+    const text = getMarkdownRecipe();
+    if (navigator.share) {
+      try {
+        await navigator.share({
+          title: t.actions.shareTitle(recipe?.name ?? ''),
+          text: text,
+          url: shareLink,
+        });
+      } catch (err) {
+        console.error("Error sharing", err);
+      }
+    } else {
+      copyText(`${text}\n\n${shareLink}`);
+    }
+  };
+
+  const runExport = async (kind: 'pdf' | 'card', task: () => Promise<void>) => {
+    setExporting(kind);
+    try {
+      await task();
+    } catch (err) {
+      // Fechar o menu de compartilhamento não é erro
+      if (isAbortError(err)) return;
+      console.error("Export failed", err);
+      showToast({ message: t.actions.exportFailed, tone: 'error' });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const downloadPdf = () => {
+    if (!recipe) return;
+    runExport('pdf', async () => downloadBlob(await createRecipePdf(buildRecipeDocument(recipe, i18n)), recipeFileName(recipe, 'pdf')));
+  };
+
+  const shareCard = () => {
+    if (!recipe) return;
+    runExport('card', async () => {
+      const card = await renderRecipeCard(buildRecipeDocument(recipe, i18n));
+      await shareOrDownload(card, recipeFileName(recipe, 'png'), t.actions.shareTitle(recipe.name));
+    });
+  };
+
+  const downloadJson = () => {
+    if (!recipe) return;
+    const json = JSON.stringify(toSchemaRecipe(recipe, i18n), null, 2);
+    downloadBlob(new Blob([json], { type: 'application/ld+json' }), recipeFileName(recipe, 'json'));
+  };
+
+  // Atalhos valem para o que está na tela; com a câmera ou o modo de cozinhar abertos, nenhum responde
+  const recipeOnScreen = view === 'home' && !draft && !!recipe;
+  useKeyboardShortcuts(!isScannerOpen && !cooking, {
+    ...(view === 'home' && !recipe && !loading && pantry.items.length > 0 ? { generate: () => generateRecipe() } : {}),
+    ...(recipeOnScreen && !loading && canVary ? { variation: () => generateRecipe(true) } : {}),
+    ...(recipeOnScreen ? { copy: copyAsMarkdown } : {}),
+  });
+
+  return (
+    <I18nProvider value={i18n}>
+      <ToastProvider value={toasts}>
+        <div className="min-h-screen bg-[#faf9f6] text-slate-900 pb-12 print:bg-white print:pb-0">
+          <div role="status" className="sr-only">{announcement}</div>
+
+          {/* Header */}
+          <header className="bg-white border-b border-orange-100 py-4 md:py-6 px-4 sticky top-0 z-50 print:hidden">
+            <div className="max-w-5xl mx-auto flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <div className="w-8 h-8 md:w-10 md:h-10 bg-orange-500 rounded-full flex items-center justify-center text-white shadow-lg shadow-orange-200">
+                  <ChefHat size={20} className="md:w-6 md:h-6" />
+                </div>
+                <h1 className="text-lg md:text-xl font-bold tracking-tight">{t.header.brand}</h1>
+                {!online && (
+                  <span
+                    title={t.header.offlineHint}
+                    className="flex items-center gap-1 px-2 py-1 rounded-full bg-slate-100 text-slate-500 text-xs font-bold"
+                  >
+                    <WifiOff size={14} /> {t.header.offline}
+                    {generationQueue.queue.length > 0 && <span className="hidden sm:inline">{t.header.queued(generationQueue.queue.length)}</span>}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                <SettingsMenu textSize={textSize} highContrast={highContrast} onChange={updateSettings} />
+                <button
+                  onClick={() => setView(prev => (prev === 'cookbook' ? 'home' : 'cookbook'))}
+                  aria-label={t.header.cookbook}
+                  aria-pressed={view === 'cookbook'}
+                  className={`transition-colors text-xs md:text-sm font-bold flex items-center gap-1 ${view === 'cookbook' ? 'text-orange-500' : 'text-gray-400 hover:text-orange-500'}`}
+                >
+                  <BookOpen size={16} /> <span className="hidden sm:inline">{t.header.cookbook}</span>
+                </button>
+                <button
+                  onClick={() => setView(prev => (prev === 'planner' ? 'home' : 'planner'))}
+                  aria-label={t.header.planner}
+                  aria-pressed={view === 'planner'}
+                  className={`transition-colors text-xs md:text-sm font-bold flex items-center gap-1 ${view === 'planner' ? 'text-orange-500' : 'text-gray-400 hover:text-orange-500'}`}
+                >
+                  <CalendarDays size={16} /> <span className="hidden sm:inline">{t.header.planner}</span>
+                </button>
+                {recipe && openedFromPlan && view === 'home' ? (
+                  <button
+                    onClick={backToPlan}
+                    className="text-gray-400 hover:text-orange-500 transition-colors text-xs md:text-sm font-bold flex items-center gap-1"
+                  >
+                    <ArrowLeft size={16} /> <span className="hidden sm:inline">{t.header.backToPlan}</span><span className="sm:hidden">{t.header.back}</span>
+                  </button>
+                ) : (recipe || view !== 'home') && (
+                  <button 
+                    onClick={startNewSearch}
+                    className="text-gray-400 hover:text-orange-500 transition-colors text-xs md:text-sm font-bold flex items-center gap-1"
+                  >
+                    <ArrowLeft size={16} /> <span className="hidden sm:inline">{t.header.newSearch}</span><span className="sm:hidden">{t.header.back}</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          </header>
+
+          <main aria-busy={loading} className="max-w-5xl mx-auto px-4 mt-6 md:mt-10 print:mt-0 print:max-w-none">
+            {view === 'cookbook' ? (
+              <Cookbook
+                entries={cookbook.entries}
+                onOpen={openSavedRecipe}
+                onToggleFavorite={cookbook.toggleFavorite}
+                onRename={cookbook.rename}
+                onSetTags={cookbook.setTags}
+                onDelete={cookbook.deleteEntry}
+              />
+            ) : view === 'planner' ? (
+              <MealPlanner
+                pantry={pantry.items}
+                plan={mealPlan.plan}
+                progress={planProgress}
+                error={planError}
+                onCreate={createMealPlan}
+                onCancel={() => planAbortRef.current?.abort()}
+                onOpen={openPlannedMeal}
+                onToggleCooked={toggleMealCooked}
+                onDiscard={mealPlan.clear}
+                onDismissError={() => setPlanError(null)}
+              />
+            ) : draft ? (
+              <StreamingRecipe draft={draft} onCancel={cancelGeneration} />
+            ) : !recipe ? (
+              <div className="animate-fade-in space-y-8 max-w-xl mx-auto">
+                <div className="text-center space-y-2">
+                  <h2 className="text-2xl md:text-4xl font-bold text-gray-900">{t.home.title}</h2>
+                  <p className="text-sm md:text-base text-gray-500">{t.home.subtitle}</p>
+                </div>
+
+                <GenerationQueue
+                  queue={generationQueue.queue}
+                  online={online}
+                  runningId={runningQueueId}
+                  ready={queueReady}
+                  onOpen={openQueuedRecipe}
+                  onRemove={generationQueue.remove}
+                  onDismissReady={() => setQueueReady([])}
+                />
+
+                <div className="space-y-4">
+                  <div className="relative group">
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-xs font-bold text-gray-400 uppercase tracking-widest ml-1 block">{t.home.ingredientsLabel}</label>
+                      <div className="flex items-center gap-2">
+                        <ImportMenu onRecipeFile={importRecipeFile} onListFile={importListFile} onScan={() => setIsScannerOpen(true)} />
+                        <button 
+                          onClick={() => setIsScannerOpen(true)}
+                          className="flex items-center gap-1.5 text-xs font-bold text-orange-500 hover:text-orange-600 transition-colors bg-orange-50 px-3 py-1.5 rounded-full border border-orange-100 shadow-sm"
+                        >
+                          <Camera size={14} /> {t.home.scan}
+                        </button>
+                      </div>
+                    </div>
+                    <PantryEditor
+                      items={pantry.items}
+                      onAddText={pantry.addFromText}
+                      onUpdate={pantry.updateItem}
+                      onRemove={pantry.removeItem}
+                      onClear={pantry.clear}
+                    />
+                  </div>
+
+                  <ProfilePanel profile={profile} onToggle={toggleProfile} onUpdate={updateProfile} />
+
+                  <button
+                    onClick={() => generateRecipe()}
+                    disabled={loading || pantry.items.length === 0}
+                    aria-keyshortcuts={SHORTCUTS.generate.aria}
+                    className="w-full py-4 md:py-5 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-orange-200 transition-all flex items-center justify-center gap-3 text-base md:text-lg"
+                  >
+                    {loading ? <Loader2 className="animate-spin" /> : online ? <Sparkles /> : <WifiOff />}
+                    {loading ? t.common.cookingIdeas : online ? t.home.create : t.home.createOffline}
+                  </button>
+
+                  {error && (
+                    <ErrorBanner message={error.message} onRetry={() => generateRecipe()} onDismiss={() => setError(null)} />
+                  )}
+                </div>
+
+                <div className="bg-orange-50 p-4 rounded-xl border border-orange-100 flex items-start gap-3">
+                  <CheckCircle2 className="text-orange-500 flex-shrink-0 mt-0.5" size={18} />
+                  <p className="text-xs text-orange-800 leading-relaxed">
+                    {t.home.onlyListed}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="animate-fade-in space-y-6 md:space-y-8 print:space-y-4">
+                {variations.length > 1 && (
+                  <VariationTabs
+                    variations={variations}
+                    activeIndex={activeIndex}
+                    comparing={comparing}
+                    onSelect={keepVariation}
+                    onToggleCompare={() => setComparing(prev => !prev)}
+                  />
+                )}
+
+                {comparing ? (
+                  <VariationCompare variations={variations} activeIndex={activeIndex} onKeep={keepVariation} />
+                ) : (
+                  <div id="recipe-content" className="bg-white rounded-3xl overflow-hidden shadow-xl border border-gray-100 print:shadow-none print:border-none">
+                    <div className="flex flex-col md:flex-row">
+                      {recipe.imageUrl && (
+                        <div className="w-full md:w-2/5 aspect-square md:aspect-auto relative print:hidden">
+                          <img src={recipe.imageUrl} alt={recipe.name} className="w-full h-full object-cover" />
+                          <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent flex items-end p-6 md:hidden">
+                            <h2 className="text-2xl font-bold text-white leading-tight">{recipe.name}</h2>
+                          </div>
+                        </div>
+                      )}
+                      {!recipe.imageUrl && imageLoading && (
+                        <div className="w-full md:w-2/5 aspect-square md:aspect-auto bg-orange-50 animate-pulse flex items-center justify-center text-orange-200 print:hidden">
+                          <ImageIcon size={48} />
+                        </div>
+                      )}
+
+                      <div className={`p-6 md:p-10 space-y-6 md:space-y-8 print:p-0 ${recipe.imageUrl || imageLoading ? 'md:w-3/5' : 'w-full'}`}>
+                        <div className="hidden md:block print:block border-b border-gray-100 pb-4 print:border-orange-100">
+                          <h2 className="text-2xl md:text-4xl font-bold text-gray-900 leading-tight">{recipe.name}</h2>
+                        </div>
+                        
+                        <div className="flex flex-wrap items-center gap-x-6 gap-y-3 print:gap-10">
+                          <div className="flex items-center gap-2 text-xs md:text-sm font-bold text-gray-500 print:text-gray-900">
+                            <Clock size={18} className="text-orange-500" />
+                            {recipe.totalTime}
+                          </div>
+                          <div className="flex items-center gap-2 text-xs md:text-sm font-bold text-gray-500 print:text-gray-900">
+                            <Flame size={18} className="text-orange-500" />
+                            {recipe.nutrition ? t.recipe.kcalPerServing(recipe.nutrition.perServing.calories) : t.recipe.straightforward}
+                          </div>
+                          <div className="flex items-center gap-2 text-xs md:text-sm font-bold text-gray-500 print:text-gray-900">
+                            <Users size={18} className="text-orange-500" />
+                            <button
+                              onClick={() => setServings(Math.max(1, recipe.servings - 1))}
+                              disabled={recipe.servings <= 1}
+                              title={t.recipe.fewerServings}
+                              className="w-6 h-6 rounded-full border border-gray-200 flex items-center justify-center hover:border-orange-300 disabled:opacity-30 print:hidden"
+                            >
+                              <Minus size={12} />
+                            </button>
+                            <span aria-live="polite">{t.common.servings(recipe.servings)}</span>
+                            <button
+                              onClick={() => setServings(Math.min(MAX_SERVINGS, recipe.servings + 1))}
+                              disabled={recipe.servings >= MAX_SERVINGS}
+                              title={t.recipe.moreServings}
+                              className="w-6 h-6 rounded-full border border-gray-200 flex items-center justify-center hover:border-orange-300 disabled:opacity-30 print:hidden"
+                            >
+                              <Plus size={12} />
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="space-y-3">
+                          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                            <Refrigerator size={14} /> {t.common.ingredients}
+                          </h3>
+                          {unlistedIngredients.length > 0 && (
+                            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800 print:hidden">
+                              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5 text-amber-500" />
+                              <span>{t.recipe.unlisted} <strong>{unlistedIngredients.join(', ')}</strong>.</span>
+                            </div>
+                          )}
+                          {profileWarnings.length > 0 && (
+                            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs text-amber-800 print:hidden">
+                              <AlertTriangle size={14} className="flex-shrink-0 mt-0.5 text-amber-500" />
+                              <div className="space-y-1">
+                                <span className="font-bold block">{t.recipe.checkProfile}</span>
+                                <ul className="list-disc list-inside">
+                                  {profileWarnings.map(warning => describeProfileWarning(t, warning)).map(text => <li key={text}>{text}</li>)}
+                                </ul>
+                              </div>
+                            </div>
+                          )}
+                          <div className="flex flex-wrap gap-2 print:flex-col print:gap-1">
+                            {recipe.ingredients.map((ing, i) => (
+                              <span key={i} className="px-2.5 py-1.5 bg-orange-50 text-orange-700 rounded-lg text-xs md:text-sm font-medium border border-orange-100 print:bg-transparent print:border-none print:text-gray-800 print:p-0 print:before:content-['•_']">
+                                {formatIngredient(ing, i18n.format)}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+
+                        <NutritionPanel nutrition={recipe.nutrition} loading={nutritionLoading} />
+
+                        <div className="space-y-5">
+                          <div className="flex items-center justify-between gap-2">
+                            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+                              <Utensils size={14} /> {t.common.method}
+                            </h3>
+                            <button
+                              onClick={() => setCooking(true)}
+                              className="flex items-center gap-1.5 text-xs font-bold text-orange-500 hover:text-orange-600 transition-colors bg-orange-50 px-3 py-1.5 rounded-full border border-orange-100 shadow-sm print:hidden"
+                            >
+                              <PlayCircle size={14} /> {t.recipe.cookingMode}
+                            </button>
+                          </div>
+                          <div className="space-y-4">
+                            {recipe.instructions.map((step, i) => (
+                              <div key={i} className="flex gap-4">
+                                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-orange-100 text-orange-600 text-xs font-bold flex items-center justify-center print:border print:border-orange-500 print:bg-white">
+                                  {i + 1}
+                                </span>
+                                <p className="text-gray-700 leading-relaxed text-sm print:text-gray-900">{step}</p>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+
+                        {recipe.tip && (
+                          <div className="p-4 bg-orange-50 rounded-2xl border border-orange-100 flex gap-3 print:bg-transparent print:mt-4 print:border-t print:border-b print:border-l-0 print:border-r-0 print:rounded-none">
+                            <div className="w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-sm text-orange-500 flex-shrink-0 print:hidden">
+                              <Sparkles size={16} />
+                            </div>
+                            <div>
+                              <span className="text-xs font-bold text-orange-400 uppercase tracking-widest block mb-0.5">{t.common.chefTip}</span>
+                              <p className="text-xs text-orange-800 font-medium italic">"{recipe.tip}"</p>
+                            </div>
+                          </div>
+                        )}
+                        
+                        <div className="hidden print:block pt-8 text-center text-gray-400 text-xs uppercase tracking-widest border-t border-gray-100">
+                          {t.recipe.generatedBy}
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="max-w-xl mx-auto w-full space-y-6 print:hidden">
+                  {error?.isVariation && (
+                    <ErrorBanner message={error.message} onRetry={() => generateRecipe(true)} onDismiss={() => setError(null)} />
+                  )}
+                  <button 
+                    onClick={() => generateRecipe(true)}
+                    disabled={loading || !canVary}
+                    aria-keyshortcuts={SHORTCUTS.variation.aria}
+                    className="w-full flex items-center justify-center gap-2 py-4 md:py-5 bg-orange-500 text-white rounded-2xl font-bold hover:bg-orange-600 disabled:bg-gray-200 transition-all shadow-xl shadow-orange-100"
+                  >
+                    {loading ? <Loader2 size={24} className="animate-spin" /> : <RotateCw size={24} />}
+                    {variationLimitReached ? t.recipe.variationLimit : canVary ? t.recipe.tryAnother : t.recipe.variationNeedsIngredients}
+                  </button>
+                  
+                  <div className={`grid grid-cols-3 gap-2 md:gap-4 ${currentEntry ? 'md:grid-cols-6' : 'md:grid-cols-5'}`}>
+                    <button 
+                      onClick={copyAsMarkdown}
+                      title={t.actions.copyMarkdownTitle}
+                      aria-keyshortcuts={SHORTCUTS.copy.aria}
+                      className={`flex flex-col items-center justify-center gap-2 py-3 md:py-4 bg-white border border-gray-200 rounded-2xl font-bold text-xs transition-all shadow-sm ${copied ? 'text-green-600 bg-green-50 border-green-200' : 'text-gray-600 hover:bg-gray-50'}`}
+                    >
+                      {copied ? <CheckCircle2 size={18} md:size={20} /> : <FileText size={18} md:size={20} />}
+                      <span>{copied ? t.actions.copied : t.actions.copyMarkdown}</span>
+                    </button>
+                    
+                    <button onClick={shareRecipe} disabled={!shareLink} className="flex flex-col items-center justify-center gap-2 py-3 md:py-4 bg-white border border-gray-200 rounded-2xl font-bold text-xs text-gray-600 hover:bg-gray-50 transition-all shadow-sm disabled:opacity-50">
+                      <Share2 size={18} md:size={20} />
+                      <span>{t.actions.share}</span>
+                    </button>
+
+                    <button onClick={shareCard} disabled={!!exporting} title={t.actions.cardTitle} className="flex flex-col items-center justify-center gap-2 py-3 md:py-4 bg-white border border-gray-200 rounded-2xl font-bold text-xs text-gray-600 hover:bg-gray-50 transition-all shadow-sm disabled:opacity-50">
+                      {exporting === 'card' ? <Loader2 size={18} className="animate-spin" /> : <ImageIcon size={18} />}
+                      <span>{t.actions.card}</span>
+                    </button>
+
+                    <button onClick={downloadPdf} disabled={!!exporting} title={t.actions.pdfTitle} className="flex flex-col items-center justify-center gap-2 py-3 md:py-4 bg-white border border-gray-200 rounded-2xl font-bold text-xs text-gray-600 hover:bg-gray-50 transition-all shadow-sm disabled:opacity-50">
+                      {exporting === 'pdf' ? <Loader2 size={18} className="animate-spin" /> : <FileDown size={18} />}
+                      <span>{t.actions.pdf}</span>
+                    </button>
+
+                    <button onClick={downloadJson} title={t.actions.jsonTitle} className="flex flex-col items-center justify-center gap-2 py-3 md:py-4 bg-white border border-gray-200 rounded-2xl font-bold text-xs text-gray-600 hover:bg-gray-50 transition-all shadow-sm disabled:opacity-50">
+                      <FileJson size={18} />
+                      <span>{t.actions.json}</span>
+                    </button>
+
+                    {currentEntry && (
+                      <button
+                        onClick={() => cookbook.toggleFavorite(currentEntry.id)}
+                        className={`flex flex-col items-center justify-center gap-2 py-3 md:py-4 bg-white border border-gray-200 rounded-2xl font-bold text-xs transition-all shadow-sm ${currentEntry.favorite ? 'text-orange-500 bg-orange-50 border-orange-200' : 'text-gray-600 hover:bg-gray-50'}`}
+                      >
+                        <Star size={18} fill={currentEntry.favorite ? 'currentColor' : 'none'} />
+                        <span>{currentEntry.favorite ? t.actions.favorited : t.actions.favorite}</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </main>
+
+          {cooking && recipe && <CookingMode recipe={recipe} onClose={() => setCooking(false)} />}
+
+          {isScannerOpen && (
+            <PantryScanner
+              detect={provider.detectIngredients}
+              onConfirm={addScannedIngredients}
+              onClose={() => setIsScannerOpen(false)}
+              onRecipe={importRecipe}
+            />
+          )}
+          
+          <footer className="mt-12 text-center text-gray-300 text-xs font-bold uppercase tracking-[0.2em] print:hidden px-4">
+            {t.home.footer}
+          </footer>
+        </div>
+      </ToastProvider>
+    </I18nProvider>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { Search, Star, Trash2, Pencil, Tag, BookOpen, Clock, Check } from 'lucide-react';
+import { SavedRecipe } from '../types';
+import { normalizeTag, searchCookbook } from '../utils/cookbook';
+import { optionLabel } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { useToast } from './Toasts';
+
+interface CookbookProps {
+  entries: SavedRecipe[];
+  onOpen: (entry: SavedRecipe) => void;
+  onToggleFavorite: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onSetTags: (id: string, tags: string[]) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleDateString(locale, { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const CookbookCard = ({ entry, onOpen, onToggleFavorite, onRename, onSetTags, onDelete }: Omit<CookbookProps, 'entries'> & { key?: React.Key; entry: SavedRecipe }) => {
+  const { t, locale } = useI18n();
+  const { showToast } = useToast();
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState(entry.recipe.name);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const saveName = () => {
+    if (name.trim()) onRename(entry.id, name.trim());
+    setRenaming(false);
+  };
+
+  const addTag = () => {
+    const tag = normalizeTag(tagDraft);
+    if (tag && !entry.tags.includes(tag)) onSetTags(entry.id, [...entry.tags, tag]);
+    setTagDraft('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden flex">
+      {entry.recipe.imageUrl && (
+        <button onClick={() => onOpen(entry)} className="w-24 md:w-32 flex-shrink-0">
+          <img src={entry.recipe.imageUrl} alt={entry.recipe.name} className="w-full h-full object-cover" />
+        </button>
+      )}
+      <div className="flex-1 p-4 space-y-2 min-w-0">
+        <div className="flex items-start gap-2">
+          {renaming ? (
+            <form className="flex-1 flex gap-1" onSubmit={(e) => { e.preventDefault(); saveName(); }}>
+              <input
+                autoFocus
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onBlur={saveName}
+                className="flex-1 px-2 py-1 border border-orange-200 rounded-lg text-sm font-bold outline-none"
+              />
+              <button type="submit" className="p-1 text-orange-500"><Check size={16} /></button>
+            </form>
+          ) : (
+            <button onClick={() => onOpen(entry)} className="flex-1 text-left font-bold text-gray-900 leading-tight hover:text-orange-500 transition-colors truncate">
+              {entry.recipe.name}
+            </button>
+          )}
+          <button onClick={() => onToggleFavorite(entry.id)} title={t.cookbook.favorite} className={entry.favorite ? 'text-orange-500' : 'text-gray-300 hover:text-orange-400'}>
+            <Star size={18} fill={entry.favorite ? 'currentColor' : 'none'} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 text-xs text-gray-400 font-bold">
+          <span className="flex items-center gap-1"><Clock size={12} /> {entry.recipe.totalTime}</span>
+          <span>{formatDate(entry.createdAt, locale)}</span>
+          {entry.preference && <span className="text-orange-400">{optionLabel(t, entry.preference)}</span>}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5">
+          {entry.tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onSetTags(entry.id, entry.tags.filter(other => other !== tag))}
+              title={t.cookbook.removeTag}
+              className="px-2 py-0.5 bg-gray-50 border border-gray-100 rounded-full text-xs text-gray-500 hover:line-through"
+            >
+              #{tag}
+            </button>
+          ))}
+          <form className="flex items-center gap-1" onSubmit={(e) => { e.preventDefault(); addTag(); }}>
+            <Tag size={12} className="text-gray-300" />
+            <input
+              value={tagDraft}
+              onChange={(e) => setTagDraft(e.target.value)}
+              placeholder={t.cookbook.tagPlaceholder}
+              className="w-20 text-xs outline-none bg-transparent"
+            />
+          </form>
+        </div>
+
+        <div className="flex gap-3 pt-1">
+          <button onClick={() => setRenaming(true)} className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-orange-500">
+            <Pencil size={12} /> {t.cookbook.rename}
+          </button>
+          <button
+            onClick={() => showToast({
+              message: t.cookbook.confirmDelete(entry.recipe.name),
+              action: { label: t.cookbook.delete, onClick: () => onDelete(entry.id) },
+            })}
+            className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-red-500"
+          >
+            <Trash2 size={12} /> {t.cookbook.delete}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const Cookbook = ({ entries, ...actions }: CookbookProps) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const results = searchCookbook(entries, query, favoritesOnly);
+
+  return (
+    <div className="animate-fade-in space-y-6 max-w-2xl mx-auto">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl md:text-4xl font-bold text-gray-900">{t.cookbook.title}</h2>
+        <p className="text-sm md:text-base text-gray-500">{t.cookbook.subtitle}</p>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="flex-1 flex items-center gap-2 px-4 py-3 bg-white border-2 border-gray-100 rounded-2xl focus-within:border-orange-500 transition-all shadow-sm">
+          <Search size={18} className="text-gray-300" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.cookbook.search}
+            className="flex-1 outline-none bg-transparent text-sm md:text-base"
+          />
+        </div>
+        <button
+          onClick={() => setFavoritesOnly(prev => !prev)}
+          title={t.cookbook.favoritesOnly}
+          className={`px-4 rounded-2xl border-2 transition-all ${favoritesOnly ? 'bg-orange-500 border-orange-500 text-white' : 'bg-white border-gray-100 text-gray-400 hover:border-orange-200'}`}
+        >
+          <Star size={18} fill={favoritesOnly ? 'currentColor' : 'none'} />
+        </button>
+      </div>
+
+      {results.length === 0 ? (
+        <div className="text-center py-12 text-gray-400 space-y-2">
+          <BookOpen size={32} className="mx-auto text-gray-200" />
+          <p className="text-sm">{entries.length === 0 ? t.cookbook.empty : t.cookbook.noResults}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {results.map(entry => (
+            <CookbookCard key={entry.id} entry={entry} {...actions} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
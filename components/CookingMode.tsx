@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, Volume2, VolumeX, Mic, MicOff, Timer, RotateCcw, Check } from 'lucide-react';
+import { Recipe } from '../types';
+import { detectDurations, formatClock } from '../utils/durations';
+import { useWakeLock } from '../hooks/useWakeLock';
+import { useVoiceCommands, VoiceCommand } from '../hooks/useVoiceCommands';
+import { useKitchenTimers } from '../hooks/useKitchenTimers';
+import { useModalDialog } from '../hooks/useModalDialog';
+import { Language, LOCALES } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface CookingModeProps {
+  recipe: Recipe;
+  onClose: () => void;
+}
+
+const speak = (text: string, language: Language) => {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = LOCALES[language];
+  const prefix = language.split('-')[0];
+  const voice = window.speechSynthesis.getVoices().find(v => v.lang.toLowerCase().startsWith(prefix));
+  if (voice) utterance.voice = voice;
+  window.speechSynthesis.speak(utterance);
+};
+
+// Modo tela cheia para cozinhar: um passo por vez, leitura em voz alta e comandos de voz
+export const CookingMode = ({ recipe, onClose }: CookingModeProps) => {
+  const { t, language } = useI18n();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [readAloud, setReadAloud] = useState(true);
+  const [voiceEnabled, setVoiceEnabled] = useState(false);
+  const { timers, startTimer, removeTimer, remainingSeconds } = useKitchenTimers(timer => {
+    if (readAloud) speak(t.cooking.timerDone(timer.label), language);
+  });
+
+  const step = recipe.instructions[stepIndex];
+  const isLast = stepIndex === recipe.instructions.length - 1;
+  const durations = detectDurations(step);
+
+  const readStep = () => speak(t.cooking.speakStep(stepIndex + 1, step), language);
+  const goTo = (index: number) => setStepIndex(Math.min(Math.max(index, 0), recipe.instructions.length - 1));
+
+  const handleCommand = (command: VoiceCommand) => {
+    if (command === 'next') goTo(stepIndex + 1);
+    if (command === 'previous') goTo(stepIndex - 1);
+    if (command === 'repeat') readStep();
+    if (command === 'timer' && durations[0]) startTimer(durations[0].label, durations[0].seconds);
+  };
+
+  useWakeLock(true);
+  const dialogRef = useModalDialog(onClose);
+  const voice = useVoiceCommands(voiceEnabled, handleCommand, language);
+
+  useEffect(() => {
+    if (readAloud) readStep();
+  }, [stepIndex, readAloud]);
+
+  useEffect(() => () => window.speechSynthesis?.cancel(), []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'ArrowRight') goTo(stepIndex + 1);
+      if (e.key === 'ArrowLeft') goTo(stepIndex - 1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [stepIndex]);
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={recipe.name}
+      tabIndex={-1}
+      className="fixed inset-0 z-[100] bg-[#faf9f6] flex flex-col outline-none print:hidden"
+    >
+      <div className="flex items-center justify-between gap-4 px-4 md:px-8 py-4 border-b border-orange-100 bg-white">
+        <div className="min-w-0">
+          <span className="text-xs font-bold text-orange-400 uppercase tracking-widest">
+            {t.cooking.stepOf(stepIndex + 1, recipe.instructions.length)}
+          </span>
+          <h2 className="font-bold text-gray-900 truncate">{recipe.name}</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setReadAloud(prev => { if (prev) window.speechSynthesis?.cancel(); return !prev; })}
+            title={readAloud ? t.cooking.stopReading : t.cooking.startReading}
+            className={`p-2.5 rounded-full border ${readAloud ? 'bg-orange-500 text-white border-orange-500' : 'bg-white text-gray-400 border-gray-200'}`}
+          >
+            {readAloud ? <Volume2 size={20} /> : <VolumeX size={20} />}
+          </button>
+          {voice.supported && (
+            <button
+              onClick={() => setVoiceEnabled(prev => !prev)}
+              title={voiceEnabled ? t.cooking.voiceOff : t.cooking.voiceOn}
+              className={`p-2.5 rounded-full border ${voice.listening ? 'bg-orange-500 text-white border-orange-500' : 'bg-white text-gray-400 border-gray-200'}`}
+            >
+              {voice.listening ? <Mic size={20} /> : <MicOff size={20} />}
+            </button>
+          )}
+          <button onClick={onClose} title={t.cooking.exit} className="p-2.5 rounded-full bg-gray-100 text-gray-500">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="h-1.5 bg-orange-100">
+        <div
+          className="h-full bg-orange-500 transition-all"
+          style={{ width: `${((stepIndex + 1) / recipe.instructions.length) * 100}%` }}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center px-6 md:px-16 py-8 gap-8">
+        {/* O passo novo é lido pelo leitor de tela mesmo com a leitura em voz alta desligada */}
+        <div aria-live="polite" className="max-w-4xl">
+          <p className="text-2xl md:text-5xl font-bold text-gray-900 leading-snug text-center animate-fade-in" key={stepIndex}>
+            {step}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap justify-center gap-3">
+          {durations.map(duration => (
+            <button
+              key={duration.label}
+              onClick={() => startTimer(duration.label, duration.seconds)}
+              className="flex items-center gap-2 px-5 py-3 bg-white border-2 border-orange-200 text-orange-600 rounded-2xl font-bold text-base md:text-lg hover:bg-orange-50"
+            >
+              <Timer size={22} /> {t.cooking.timerFor(duration.label)}
+            </button>
+          ))}
+          <button onClick={readStep} className="flex items-center gap-2 px-5 py-3 bg-white border-2 border-gray-100 text-gray-500 rounded-2xl font-bold text-base md:text-lg hover:bg-gray-50">
+            <RotateCcw size={22} /> {t.cooking.repeat}
+          </button>
+        </div>
+
+        {voiceEnabled && voice.listening && (
+          <p className="text-xs md:text-sm text-gray-400 text-center">
+            {t.cooking.voiceHint.say}{' '}
+            {t.cooking.voiceHint.words.map((word, index, words) => (
+              <span key={word}>
+                {index > 0 && (index === words.length - 1 ? ` ${t.cooking.voiceHint.or} ` : ', ')}
+                <strong>"{word}"</strong>
+              </span>
+            ))}.
+          </p>
+        )}
+      </div>
+
+      {timers.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 px-4 pb-4">
+          {timers.map(timer => {
+            const remaining = remainingSeconds(timer);
+            return (
+              <div
+                key={timer.id}
+                className={`flex items-center gap-3 pl-4 pr-2 py-2 rounded-full font-bold border ${remaining === 0 ? 'bg-green-500 text-white border-green-500 animate-pulse' : 'bg-white text-gray-700 border-orange-200'}`}
+              >
+                <Timer size={18} />
+                <span className="text-lg tabular-nums">{formatClock(remaining)}</span>
+                <span className="text-xs opacity-70">{timer.label}</span>
+                <button onClick={() => removeTimer(timer.id)} className="p-1 rounded-full hover:bg-black/10" title={t.cooking.removeTimer}>
+                  <X size={16} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 p-4 md:p-6 bg-white border-t border-orange-100">
+        <button
+          onClick={() => goTo(stepIndex - 1)}
+          disabled={stepIndex === 0}
+          className="flex items-center justify-center gap-2 py-5 md:py-6 bg-gray-100 text-gray-600 rounded-2xl font-bold text-lg md:text-xl disabled:opacity-40"
+        >
+          <ChevronLeft size={28} /> {t.cooking.previous}
+        </button>
+        <button
+          onClick={() => (isLast ? onClose() : goTo(stepIndex + 1))}
+          className="flex items-center justify-center gap-2 py-5 md:py-6 bg-orange-500 hover:bg-orange-600 text-white rounded-2xl font-bold text-lg md:text-xl shadow-xl shadow-orange-200"
+        >
+          {isLast ? <><Check size={28} /> {t.cooking.finish}</> : <>{t.cooking.next} <ChevronRight size={28} /></>}
+        </button>
+      </div>
+    </div>
+  );
+};
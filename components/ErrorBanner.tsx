@@ -0,0 +1,32 @@
+import React from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+export const ErrorBanner = ({ message, onRetry, onDismiss }: ErrorBannerProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div role="alert" className="bg-red-50 p-4 rounded-xl border border-red-100 flex items-start gap-3 animate-fade-in print:hidden">
+      <AlertTriangle className="text-red-500 flex-shrink-0 mt-0.5" size={18} />
+      <div className="flex-1 space-y-2">
+        <p className="text-xs md:text-sm text-red-800 leading-relaxed">{message}</p>
+        {onRetry && (
+          <button onClick={onRetry} className="text-xs font-bold text-red-600 hover:text-red-700 uppercase tracking-widest">
+            {t.common.retry}
+          </button>
+        )}
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="text-red-300 hover:text-red-500" title={t.common.close}>
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CheckCircle2, CloudOff, Loader2, X } from 'lucide-react';
+import { QueuedGeneration, SavedRecipe } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface GenerationQueueProps {
+  queue: QueuedGeneration[];
+  online: boolean;
+  // Pedido da fila sendo gerado agora
+  runningId: string | null;
+  // Receitas que a fila já gerou e o usuário ainda não viu
+  ready: SavedRecipe[];
+  onOpen: (entry: SavedRecipe) => void;
+  onRemove: (id: string) => void;
+  onDismissReady: () => void;
+}
+
+export const GenerationQueue = ({ queue, online, runningId, ready, onOpen, onRemove, onDismissReady }: GenerationQueueProps) => {
+  const { t, locale } = useI18n();
+  if (!queue.length && !ready.length) return null;
+
+  const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="space-y-3 animate-fade-in print:hidden">
+      {queue.length > 0 && (
+        <div className="p-4 bg-slate-50 border border-slate-200 rounded-2xl space-y-2">
+          <p className="flex items-center gap-2 text-xs md:text-sm font-bold text-slate-700">
+            {online ? <Loader2 size={16} className="animate-spin" /> : <CloudOff size={16} />}
+            {online ? t.queue.running : t.queue.waiting}
+          </p>
+          <ul className="space-y-1">
+            {queue.map(item => (
+              <li key={item.id} className="flex items-center gap-2 text-xs text-slate-500">
+                <span className="font-bold">{formatTime(item.createdAt)}</span>
+                <span className="flex-1 truncate">{item.ingredients.map(ingredient => ingredient.name).join(', ')}</span>
+                {item.id !== runningId && (
+                  <button onClick={() => onRemove(item.id)} title={t.queue.remove} className="text-slate-300 hover:text-red-500">
+                    <X size={14} />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {ready.length > 0 && (
+        <div className="p-4 bg-green-50 border border-green-100 rounded-2xl flex items-start gap-3">
+          <CheckCircle2 size={18} className="text-green-500 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 space-y-1">
+            <p className="text-xs md:text-sm font-bold text-green-800">{t.queue.ready}</p>
+            <div className="flex flex-wrap gap-2">
+              {ready.map(entry => (
+                <button
+                  key={entry.id}
+                  onClick={() => onOpen(entry)}
+                  className="px-3 py-1 bg-white border border-green-200 rounded-full text-xs font-bold text-green-700 hover:border-green-400"
+                >
+                  {entry.recipe.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button onClick={onDismissReady} className="text-green-300 hover:text-green-600" title={t.common.close}>
+            <X size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
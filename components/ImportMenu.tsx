@@ -0,0 +1,88 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Import, FileText, QrCode, Receipt } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ImportMenuProps {
+  // Conteúdo de um arquivo .json/.md de receita
+  onRecipeFile: (text: string) => void;
+  // Lista de compras ou nota fiscal em texto
+  onListFile: (text: string) => void;
+  onScan: () => void;
+}
+
+// Abre receitas compartilhadas e traz listas de compras para a despensa
+export const ImportMenu = ({ onRecipeFile, onListFile, onScan }: ImportMenuProps) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const recipeInputRef = useRef<HTMLInputElement>(null);
+  const listInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const readFile = async (input: HTMLInputElement | null, onRead: (text: string) => void) => {
+    const file = input?.files?.[0];
+    if (!input || !file) return;
+    onRead(await file.text());
+    // Permite escolher o mesmo arquivo de novo
+    input.value = '';
+  };
+
+  const choose = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const options = [
+    { icon: FileText, label: t.import.recipeFile, action: () => recipeInputRef.current?.click() },
+    { icon: QrCode, label: t.import.scan, action: onScan },
+    { icon: Receipt, label: t.import.listFile, action: () => listInputRef.current?.click() },
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <input
+        ref={recipeInputRef}
+        type="file"
+        accept=".json,.md,.markdown,.txt,application/json,application/ld+json,text/markdown"
+        className="hidden"
+        onChange={(e) => readFile(e.target, onRecipeFile)}
+      />
+      <input
+        ref={listInputRef}
+        type="file"
+        accept=".txt,.csv,text/plain,text/csv"
+        className="hidden"
+        onChange={(e) => readFile(e.target, onListFile)}
+      />
+
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-1.5 text-xs font-bold text-gray-500 hover:text-orange-600 transition-colors bg-white px-3 py-1.5 rounded-full border border-gray-100 shadow-sm"
+      >
+        <Import size={14} /> {t.import.button}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 p-2 bg-white border border-gray-100 rounded-2xl shadow-xl z-20 animate-fade-in">
+          {options.map(({ icon: Icon, label, action }) => (
+            <button
+              key={label}
+              onClick={() => choose(action)}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl text-left text-xs font-medium text-gray-600 hover:bg-orange-50 hover:text-orange-600 transition-colors"
+            >
+              <Icon size={16} className="flex-shrink-0" /> {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { CalendarDays, Check, Clock, Loader2, Refrigerator, Trash2 } from 'lucide-react';
+import { MealPlan, PantryItem, PlannedMeal } from '../types';
+import { MAX_MEALS_PER_DAY, MEAL_COUNTS, formatUsage, sortByExpiry } from '../utils/mealPlan';
+import { formatIngredient } from '../utils/units';
+import { useI18n } from '../i18n/I18nProvider';
+import { ErrorBanner } from './ErrorBanner';
+import { useToast } from './Toasts';
+
+interface MealPlannerProps {
+  pantry: PantryItem[];
+  plan: MealPlan | null;
+  progress: { done: number; total: number } | null;
+  error: string | null;
+  onCreate: (meals: number, mealsPerDay: number) => void;
+  onCancel: () => void;
+  onOpen: (meal: PlannedMeal) => void;
+  onToggleCooked: (meal: PlannedMeal) => void;
+  onDiscard: () => void;
+  onDismissError: () => void;
+}
+
+const formatDay = (date: string, locale: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString(locale, { weekday: 'long', day: '2-digit', month: '2-digit' });
+
+const Choice = ({ active, onClick, children }: { key?: React.Key; active: boolean; onClick: () => void; children: React.ReactNode }) => (
+  <button
+    onClick={onClick}
+    aria-pressed={active}
+    className={`px-4 py-2 rounded-full text-xs md:text-sm font-medium transition-all border ${
+      active ? 'bg-orange-500 text-white border-orange-500 shadow-md' : 'bg-white text-gray-600 border-gray-100 hover:border-orange-200'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const MealCard = ({ meal, onOpen, onToggleCooked }: { key?: React.Key; meal: PlannedMeal; onOpen: () => void; onToggleCooked: () => void }) => {
+  const { t, format } = useI18n();
+
+  return (
+    <div className={`bg-white rounded-2xl border shadow-sm p-4 space-y-3 transition-opacity ${meal.cooked ? 'border-green-100 opacity-60' : 'border-gray-100'}`}>
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0 space-y-1">
+          <span className="text-xs font-bold text-orange-400 uppercase tracking-widest">{t.planner.slots[meal.slot]}</span>
+          <button onClick={onOpen} className="block text-left font-bold text-gray-900 leading-tight hover:text-orange-500 transition-colors">
+            {meal.recipe.name}
+          </button>
+          <span className="flex items-center gap-1 text-xs font-bold text-gray-400">
+            <Clock size={12} /> {meal.recipe.totalTime}
+          </span>
+        </div>
+        <button
+          onClick={onToggleCooked}
+          title={meal.cooked ? t.planner.uncookTitle : t.planner.cookTitle}
+          className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+            meal.cooked ? 'bg-green-500 text-white border-green-500' : 'bg-white text-gray-500 border-gray-200 hover:border-green-300'
+          }`}
+        >
+          <Check size={14} /> {meal.cooked ? t.planner.cooked : t.planner.markCooked}
+        </button>
+      </div>
+      {meal.usage.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          <span className="text-xs text-gray-400 mr-1">{t.planner.uses}</span>
+          {meal.usage.map(usage => (
+            <span key={usage.name} className="px-2 py-0.5 bg-orange-50 text-orange-700 rounded-lg text-xs font-medium border border-orange-100">
+              {formatUsage(usage, format)}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const MealPlanner = ({
+  pantry, plan, progress, error, onCreate, onCancel, onOpen, onToggleCooked, onDiscard, onDismissError,
+}: MealPlannerProps) => {
+  const { t, locale, format } = useI18n();
+  const { showToast } = useToast();
+  const [mealCount, setMealCount] = useState(5);
+  const [mealsPerDay, setMealsPerDay] = useState(1);
+  const expiringSoon = sortByExpiry(pantry).filter(item => item.expiresAt).slice(0, 3);
+  const meals = plan?.meals ?? [];
+  const days = [...new Set(meals.map(meal => meal.date))];
+
+  return (
+    <div className="animate-fade-in space-y-6 max-w-2xl mx-auto">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl md:text-4xl font-bold text-gray-900">{t.planner.title}</h2>
+        <p className="text-sm md:text-base text-gray-500">{t.planner.subtitle}</p>
+      </div>
+
+      {error && <ErrorBanner message={error} onDismiss={onDismissError} />}
+
+      {!plan && !progress && (
+        <div className="bg-white rounded-3xl border border-gray-100 shadow-sm p-5 md:p-8 space-y-6">
+          <div className="space-y-2">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest ml-1 block">{t.planner.mealCount}</span>
+            <div className="flex flex-wrap gap-2">
+              {MEAL_COUNTS.map(count => (
+                <Choice key={count} active={mealCount === count} onClick={() => setMealCount(count)}>{count}</Choice>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest ml-1 block">{t.planner.perDay}</span>
+            <div className="flex flex-wrap gap-2">
+              <Choice active={mealsPerDay === 1} onClick={() => setMealsPerDay(1)}>{t.planner.dinnerOnly}</Choice>
+              <Choice active={mealsPerDay === MAX_MEALS_PER_DAY} onClick={() => setMealsPerDay(MAX_MEALS_PER_DAY)}>{t.planner.lunchAndDinner}</Choice>
+            </div>
+          </div>
+          {expiringSoon.length > 0 && (
+            <p className="text-xs text-gray-500">
+              {t.planner.prioritize} <strong>{expiringSoon.map(item => item.name).join(', ')}</strong>.
+            </p>
+          )}
+          <button
+            onClick={() => onCreate(mealCount, mealsPerDay)}
+            disabled={pantry.length === 0}
+            className="w-full py-4 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-200 text-white font-bold rounded-2xl shadow-xl shadow-orange-200 transition-all flex items-center justify-center gap-3"
+          >
+            <CalendarDays size={20} /> {t.planner.create}
+          </button>
+          {pantry.length === 0 && (
+            <p className="text-xs text-center text-gray-400">{t.planner.emptyPantry}</p>
+          )}
+        </div>
+      )}
+
+      {progress && (
+        <div className="flex items-center justify-between gap-3 p-4 bg-orange-50 border border-orange-100 rounded-2xl">
+          <span role="status" className="flex items-center gap-2 text-sm font-bold text-orange-700">
+            <Loader2 size={18} className="animate-spin" /> {t.planner.progress(Math.min(progress.done + 1, progress.total), progress.total)}
+          </span>
+          <button onClick={onCancel} className="text-xs font-bold text-orange-500 hover:text-orange-700">{t.planner.stop}</button>
+        </div>
+      )}
+
+      {days.map(day => (
+        <div key={day} className="space-y-3">
+          <h3 className="text-xs md:text-sm font-bold text-gray-500 uppercase tracking-widest">{formatDay(day, locale)}</h3>
+          {meals.filter(meal => meal.date === day).map(meal => (
+            <MealCard key={meal.id} meal={meal} onOpen={() => onOpen(meal)} onToggleCooked={() => onToggleCooked(meal)} />
+          ))}
+        </div>
+      ))}
+
+      {plan && (
+        <div className="space-y-3">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Refrigerator size={14} /> {t.planner.pantryNow}
+          </h3>
+          {pantry.length === 0 ? (
+            <p className="text-xs text-gray-400">{t.planner.pantryEmpty}</p>
+          ) : (
+            <div className="flex flex-wrap gap-1.5">
+              {pantry.map(item => (
+                <span key={item.id} className="px-2 py-1 bg-white border border-gray-100 rounded-lg text-xs text-gray-600">
+                  {formatIngredient({ item: item.name, quantity: item.quantity, unit: item.unit }, format)}
+                </span>
+              ))}
+            </div>
+          )}
+          {!progress && (
+            <button
+              onClick={() => showToast({ message: t.planner.confirmDiscard, action: { label: t.planner.newPlan, onClick: onDiscard } })}
+              className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-red-500"
+            >
+              <Trash2 size={12} /> {t.planner.newPlan}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
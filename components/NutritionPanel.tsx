@@ -0,0 +1,43 @@
+import React from 'react';
+import { Loader2, Activity } from 'lucide-react';
+import { NutritionEstimate } from '../types';
+import { NUTRIENT_FIELDS, formatNutrient } from '../utils/nutrition';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface NutritionPanelProps {
+  nutrition?: NutritionEstimate;
+  loading: boolean;
+}
+
+export const NutritionPanel = ({ nutrition, loading }: NutritionPanelProps) => {
+  const { t, locale } = useI18n();
+  if (!nutrition) {
+    if (!loading) return null;
+    return (
+      <div className="flex items-center gap-2 text-xs text-gray-400 print:hidden">
+        <Loader2 size={14} className="animate-spin text-orange-400" /> {t.nutrition.loading}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 print:break-inside-avoid">
+      <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+        <Activity size={14} /> {t.nutrition.title}
+      </h3>
+      <div className="grid grid-cols-5 gap-2">
+        {NUTRIENT_FIELDS.map(({ key, unit }) => (
+          <div key={key} className="p-2 md:p-3 bg-gray-50 border border-gray-100 rounded-xl text-center print:bg-transparent">
+            <span className="block text-sm md:text-base font-bold text-gray-900 tabular-nums">{formatNutrient(nutrition.perServing[key], unit, locale)}</span>
+            <span className="block text-xs font-bold text-gray-400 uppercase tracking-wide truncate">{t.nutrition.fields[key]}</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 leading-relaxed">
+        {t.nutrition.source}
+        {nutrition.estimatedByModel.length > 0 && t.nutrition.byModel(nutrition.estimatedByModel.join(', '))}
+        {nutrition.missing.length > 0 && t.nutrition.missing(nutrition.missing.join(', '))}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, Plus, Refrigerator, CalendarClock } from 'lucide-react';
+import { PantryItem } from '../types';
+import { CANONICAL_UNITS, unitLabel } from '../utils/units';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface PantryEditorProps {
+  items: PantryItem[];
+  onAddText: (text: string) => void;
+  onUpdate: (id: string, changes: Partial<PantryItem>) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+const formatExpiry = (date: string, locale: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString(locale, { day: '2-digit', month: '2-digit' });
+
+export const PantryEditor = ({ items, onAddText, onUpdate, onRemove, onClear }: PantryEditorProps) => {
+  const { t, locale, language } = useI18n();
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Nome em edição; só vai para a despensa ao sair do campo, sem espaços nas pontas e nunca vazio
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const editing = items.find(item => item.id === editingId);
+  // A unidade atual continua na lista mesmo fora das canônicas (ex.: "pacote" lido de uma nota)
+  const unitOptions = editing?.unit && !CANONICAL_UNITS.includes(editing.unit) ? [...CANONICAL_UNITS, editing.unit] : CANONICAL_UNITS;
+
+  const commitName = () => {
+    const name = nameDraft?.trim();
+    if (editing && name) onUpdate(editing.id, { name });
+    setNameDraft(null);
+  };
+
+  const commit = (text: string) => {
+    if (text.trim()) onAddText(text);
+    setDraft('');
+  };
+
+  // Itens completos (separados por vírgula ou quebra de linha) viram chips enquanto o usuário digita ou cola
+  const handleChange = (value: string) => {
+    const lastSeparator = Math.max(value.lastIndexOf(','), value.lastIndexOf('\n'), value.lastIndexOf(';'));
+    if (lastSeparator === -1) {
+      setDraft(value);
+      return;
+    }
+    onAddText(value.slice(0, lastSeparator));
+    setDraft(value.slice(lastSeparator + 1).trimStart());
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="w-full min-h-32 md:min-h-40 p-4 bg-white border-2 border-gray-100 rounded-2xl focus-within:border-orange-500 transition-all shadow-sm relative">
+        <div className="flex flex-wrap gap-2 pr-8">
+          {items.map(item => (
+            <span
+              key={item.id}
+              className={`flex items-center gap-1.5 pl-3 pr-1.5 py-1.5 rounded-full text-xs md:text-sm font-medium border cursor-pointer transition-all ${
+                editingId === item.id
+                  ? 'bg-orange-500 text-white border-orange-500'
+                  : 'bg-orange-50 text-orange-700 border-orange-100 hover:border-orange-300'
+              }`}
+              onClick={() => setEditingId(prev => (prev === item.id ? null : item.id))}
+              // Chip com botão de remover dentro: não pode ser um <button>, então responde ao teclado por conta própria
+              role="button"
+              tabIndex={0}
+              aria-expanded={editingId === item.id}
+              onKeyDown={(e) => {
+                if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+                e.preventDefault();
+                setEditingId(prev => (prev === item.id ? null : item.id));
+              }}
+            >
+              {item.name}
+              {item.quantity !== undefined && (
+                <span className="opacity-70">{item.quantity}{item.unit ? ` ${unitLabel(item.unit, item.quantity, language)}` : ''}</span>
+              )}
+              {item.expiresAt && (
+                <span className="flex items-center gap-0.5 opacity-70">
+                  <CalendarClock size={12} /> {formatExpiry(item.expiresAt, locale)}
+                </span>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onRemove(item.id); if (editingId === item.id) setEditingId(null); }}
+                className="p-0.5 rounded-full hover:bg-black/10"
+                title={t.common.remove(item.name)}
+              >
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+          <input
+            value={draft}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commit(draft);
+              } else if (e.key === 'Backspace' && !draft && items.length) {
+                onRemove(items[items.length - 1].id);
+              }
+            }}
+            onBlur={() => commit(draft)}
+            placeholder={items.length ? t.pantry.addMore : t.pantry.placeholder}
+            className="flex-1 min-w-[10rem] py-1.5 outline-none bg-transparent text-base md:text-lg"
+          />
+        </div>
+        <div className="absolute bottom-4 right-4 text-gray-300">
+          <Refrigerator size={24} />
+        </div>
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 p-3 bg-white border border-orange-100 rounded-2xl shadow-sm animate-fade-in">
+          <input
+            value={nameDraft ?? editing.name}
+            onChange={(e) => setNameDraft(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitName(); }}
+            className="col-span-2 md:col-span-1 px-3 py-2 border border-gray-100 rounded-xl text-sm outline-none focus:border-orange-500"
+            placeholder={t.pantry.ingredient}
+          />
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={editing.quantity ?? ''}
+            onChange={(e) => onUpdate(editing.id, { quantity: e.target.value === '' ? undefined : Number(e.target.value) })}
+            className="px-3 py-2 border border-gray-100 rounded-xl text-sm outline-none focus:border-orange-500"
+            placeholder={t.pantry.quantity}
+          />
+          <select
+            value={editing.unit ?? ''}
+            onChange={(e) => onUpdate(editing.id, { unit: e.target.value || undefined })}
+            className="px-3 py-2 border border-gray-100 rounded-xl text-sm outline-none focus:border-orange-500 bg-white"
+            aria-label={t.pantry.unit}
+          >
+            <option value="">{t.pantry.unit}</option>
+            {unitOptions.map(unit => <option key={unit} value={unit}>{unitLabel(unit, 1, language)}</option>)}
+          </select>
+          <input
+            type="date"
+            value={editing.expiresAt ?? ''}
+            onChange={(e) => onUpdate(editing.id, { expiresAt: e.target.value || undefined })}
+            className="col-span-2 md:col-span-1 px-3 py-2 border border-gray-100 rounded-xl text-sm outline-none focus:border-orange-500"
+            title={t.pantry.expiry}
+          />
+        </div>
+      )}
+
+      <div className="flex justify-between items-center px-1">
+        <button
+          onClick={() => commit(draft)}
+          disabled={!draft.trim()}
+          className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-orange-500 disabled:opacity-0 transition-all"
+        >
+          <Plus size={14} /> {t.pantry.add}
+        </button>
+        {items.length > 0 && (
+          <button
+            onClick={() => { onClear(); setEditingId(null); }}
+            className="text-xs font-bold text-gray-400 hover:text-orange-500 transition-colors"
+          >
+            {t.pantry.clear}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,353 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, Scan, ImagePlus, Check, Trash2, RotateCw, ArrowLeft, ListChecks } from 'lucide-react';
+import { DetectedIngredient, Recipe } from '../types';
+import { ImageInput, ScanOptions, isAbortError } from '../services/recipeProvider';
+import { useCamera } from '../hooks/useCamera';
+import { useModalDialog } from '../hooks/useModalDialog';
+import { MIN_CONFIDENCE, uniqueNames } from '../utils/detections';
+import { ScanImage, downscaleFile, downscaleImage } from '../utils/image';
+import { detectQrCode } from '../utils/qr';
+import { readSharedRecipe } from '../utils/recipeImport';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Intervalo entre as leituras de QR code no vídeo
+const QR_SCAN_INTERVAL = 500;
+
+interface ReviewItem extends DetectedIngredient {
+  accepted: boolean;
+}
+
+interface ScanPhoto {
+  id: string;
+  image: ScanImage;
+  status: 'analyzing' | 'done' | 'error';
+  detections: ReviewItem[];
+}
+
+interface PantryScannerProps {
+  detect: (image: ImageInput, options?: ScanOptions) => Promise<DetectedIngredient[]>;
+  onConfirm: (names: string[]) => void;
+  onClose: () => void;
+  // Com ele, QR codes de receitas compartilhadas (no vídeo ou na galeria) abrem a receita
+  onRecipe?: (recipe: Recipe) => void;
+}
+
+const PhotoReview = ({ photo, onToggle, onRetry, onRemove }: {
+  key?: React.Key;
+  photo: ScanPhoto;
+  onToggle: (index: number) => void;
+  onRetry: () => void;
+  onRemove: () => void;
+}) => {
+  const { t } = useI18n();
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+
+  return (
+    <div className="bg-white rounded-2xl border border-gray-100 shadow-sm overflow-hidden md:flex">
+      <div className="relative md:w-1/2 flex-shrink-0">
+        <img src={photo.image.dataUrl} alt={t.scanner.analyzedPhoto} className="w-full block" />
+        {photo.detections.map((detection, i) => detection.box && (
+          <div
+            key={i}
+            className={`absolute border-2 rounded-md transition-all ${
+              detection.accepted ? 'border-orange-500' : 'border-dashed border-white/70'
+            } ${highlighted === i ? 'bg-orange-500/20 z-10' : ''}`}
+            style={{
+              left: `${detection.box.x * 100}%`,
+              top: `${detection.box.y * 100}%`,
+              width: `${detection.box.width * 100}%`,
+              height: `${detection.box.height * 100}%`,
+            }}
+          >
+            <span className={`absolute -top-0.5 left-0 -translate-y-full px-1.5 py-0.5 rounded text-xs font-bold whitespace-nowrap ${
+              detection.accepted ? 'bg-orange-500 text-white' : 'bg-white/80 text-gray-500'
+            }`}>
+              {detection.name}
+            </span>
+          </div>
+        ))}
+        {photo.status === 'analyzing' && (
+          <div className="absolute inset-0 bg-black/40 flex items-center justify-center">
+            <Loader2 size={32} className="text-white animate-spin" />
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 p-4 space-y-2">
+        <div aria-live="polite" className="space-y-2">
+          {photo.status === 'analyzing' && <p className="text-xs text-gray-400">{t.scanner.identifying}</p>}
+          {photo.status === 'error' && <p className="text-xs text-red-500">{t.scanner.failed}</p>}
+          {photo.status === 'done' && photo.detections.length === 0 && (
+            <p className="text-xs text-gray-400">{t.scanner.nothingFound}</p>
+          )}
+        </div>
+        {photo.status === 'error' && (
+          <button onClick={onRetry} className="flex items-center gap-1 text-xs font-bold text-orange-500">
+            <RotateCw size={12} /> {t.scanner.tryAgain}
+          </button>
+        )}
+        {photo.detections.map((detection, i) => (
+          <button
+            key={i}
+            onClick={() => onToggle(i)}
+            onMouseEnter={() => setHighlighted(i)}
+            onMouseLeave={() => setHighlighted(null)}
+            onFocus={() => setHighlighted(i)}
+            onBlur={() => setHighlighted(null)}
+            aria-pressed={detection.accepted}
+            className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl border text-left text-sm transition-all ${
+              detection.accepted ? 'bg-orange-50 border-orange-200 text-gray-900' : 'bg-white border-gray-100 text-gray-400 line-through'
+            }`}
+          >
+            <span className={`w-5 h-5 rounded-md flex items-center justify-center flex-shrink-0 ${detection.accepted ? 'bg-orange-500 text-white' : 'border border-gray-200'}`}>
+              {detection.accepted && <Check size={14} />}
+            </span>
+            <span className="flex-1 font-medium">{detection.name}</span>
+            <span className="text-xs font-bold tabular-nums text-gray-400">{Math.round(detection.confidence * 100)}%</span>
+          </button>
+        ))}
+        <button onClick={onRemove} className="flex items-center gap-1 pt-1 text-xs font-bold text-gray-400 hover:text-red-500">
+          <Trash2 size={12} /> {t.scanner.discardPhoto}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Várias fotos (câmera ou galeria) → detecções com caixas → revisão antes de entrar na despensa
+export const PantryScanner = ({ detect, onConfirm, onClose, onRecipe }: PantryScannerProps) => {
+  const { t, language } = useI18n();
+  const [step, setStep] = useState<'capture' | 'review'>('capture');
+  const [photos, setPhotos] = useState<ScanPhoto[]>([]);
+  const { videoRef, failed: cameraFailed } = useCamera(step === 'capture');
+  const dialogRef = useModalDialog(onClose);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef(new AbortController());
+  const [qrError, setQrError] = useState<string | null>(null);
+  // O mesmo código fica na frente da câmera por vários quadros: só o primeiro é lido
+  const lastQrRef = useRef<string | null>(null);
+  const onRecipeRef = useRef(onRecipe);
+  onRecipeRef.current = onRecipe;
+
+  useEffect(() => () => abortRef.current.abort(), []);
+
+  const scanQrCode = (source: CanvasImageSource, width: number, height: number) =>
+    detectQrCode(source, width, height).catch(err => {
+      console.error("Erro ao ler QR code:", err);
+      return null;
+    });
+
+  // true quando o QR code trazia uma receita e ela foi aberta
+  const openQrCode = async (text: string | null) => {
+    if (!text || text === lastQrRef.current || !onRecipeRef.current) return false;
+    lastQrRef.current = text;
+    try {
+      const recipe = await readSharedRecipe(text);
+      if (!recipe) return false;
+      onRecipeRef.current(recipe);
+      return true;
+    } catch (err) {
+      console.error("QR code com receita inválida:", err);
+      setQrError(t.import.invalidLink);
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    if (!onRecipeRef.current || step !== 'capture' || cameraFailed) return;
+    let reading = false;
+    const timer = setInterval(async () => {
+      const video = videoRef.current;
+      if (reading || !video?.videoWidth) return;
+      reading = true;
+      try {
+        await openQrCode(await scanQrCode(video, video.videoWidth, video.videoHeight));
+      } finally {
+        reading = false;
+      }
+    }, QR_SCAN_INTERVAL);
+    return () => clearInterval(timer);
+  }, [step, cameraFailed]);
+
+  const updatePhoto = (id: string, changes: Partial<ScanPhoto>) =>
+    setPhotos(prev => prev.map(photo => (photo.id === id ? { ...photo, ...changes } : photo)));
+
+  const analyze = async (id: string, image: ScanImage) => {
+    updatePhoto(id, { status: 'analyzing', detections: [] });
+    try {
+      const detections = await detect(image, { signal: abortRef.current.signal, language });
+      updatePhoto(id, {
+        status: 'done',
+        detections: detections.map(detection => ({ ...detection, accepted: detection.confidence >= MIN_CONFIDENCE })),
+      });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error("Erro na análise da imagem:", err);
+      updatePhoto(id, { status: 'error' });
+    }
+  };
+
+  const addPhoto = (image: ScanImage) => {
+    const id = crypto.randomUUID();
+    setPhotos(prev => [...prev, { id, image, status: 'analyzing', detections: [] }]);
+    analyze(id, image);
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    addPhoto(downscaleImage(video, video.videoWidth, video.videoHeight));
+  };
+
+  const addFiles = async (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      try {
+        if (onRecipe) {
+          const bitmap = await createImageBitmap(file);
+          const text = await scanQrCode(bitmap, bitmap.width, bitmap.height);
+          bitmap.close();
+          if (await openQrCode(text)) break;
+        }
+        addPhoto(await downscaleFile(file));
+      } catch (err) {
+        console.error("Erro ao abrir imagem:", err);
+      }
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const toggleDetection = (id: string, index: number) =>
+    setPhotos(prev => prev.map(photo => photo.id !== id ? photo : {
+      ...photo,
+      detections: photo.detections.map((detection, i) => (i === index ? { ...detection, accepted: !detection.accepted } : detection)),
+    }));
+
+  const acceptedNames = uniqueNames(
+    photos.flatMap(photo => photo.detections.filter(detection => detection.accepted).map(detection => detection.name))
+  );
+  const analyzingCount = photos.filter(photo => photo.status === 'analyzing').length;
+
+  return (
+    <div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t.scanner.title}
+      tabIndex={-1}
+      className="fixed inset-0 z-[100] bg-black flex flex-col outline-none"
+    >
+      <input ref={fileInputRef} type="file" accept="image/*" multiple tabIndex={-1} className="hidden" onChange={(e) => addFiles(e.target.files)} />
+
+      <button
+        onClick={onClose}
+        title={t.common.close}
+        className="absolute top-6 right-6 p-2 bg-white/20 text-white rounded-full backdrop-blur-md z-20"
+      >
+        <X size={24} />
+      </button>
+
+      {step === 'capture' ? (
+        <>
+          <div className="relative flex-1 w-full max-w-2xl mx-auto flex items-center justify-center overflow-hidden">
+            {cameraFailed ? (
+              <p role="alert" className="text-white/80 text-sm text-center max-w-xs px-6">
+                {t.scanner.cameraUnavailable}
+              </p>
+            ) : (
+              <>
+                <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+                <div className="absolute inset-0 border-2 border-orange-500/30 pointer-events-none">
+                  <div className="w-full h-1 bg-orange-500/50 absolute top-0 animate-[scan_3s_infinite_linear]" />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="absolute bottom-8 w-full flex flex-col items-center gap-4 px-6">
+            <p className="text-white/80 text-sm font-medium text-center max-w-xs">
+              {t.scanner.instructions}
+              {onRecipe && <span className="block text-white/60 text-xs mt-1">{t.scanner.qrHint}</span>}
+            </p>
+            {qrError && <p role="alert" className="text-red-300 text-xs font-bold text-center max-w-xs">{qrError}</p>}
+
+            {photos.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto max-w-full">
+                {photos.map(photo => (
+                  <div key={photo.id} className="relative w-14 h-14 flex-shrink-0 rounded-xl overflow-hidden border-2 border-white/60">
+                    <img src={photo.image.dataUrl} alt="" className="w-full h-full object-cover" />
+                    <span className="absolute inset-0 flex items-center justify-center bg-black/40 text-white text-xs font-bold">
+                      {photo.status === 'analyzing' ? <Loader2 size={16} className="animate-spin" /> : photo.status === 'error' ? '!' : photo.detections.length}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-6">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                title={t.scanner.gallery}
+                className="w-12 h-12 bg-white/20 text-white rounded-full flex items-center justify-center backdrop-blur-md"
+              >
+                <ImagePlus size={22} />
+              </button>
+              <button
+                onClick={capture}
+                disabled={cameraFailed}
+                title={t.scanner.takePhoto}
+                className="w-20 h-20 bg-white rounded-full flex items-center justify-center shadow-2xl active:scale-95 transition-transform disabled:opacity-50"
+              >
+                <div className="w-16 h-16 border-4 border-orange-500 rounded-full flex items-center justify-center">
+                  <Scan size={32} className="text-orange-500" />
+                </div>
+              </button>
+              <button
+                onClick={() => setStep('review')}
+                disabled={photos.length === 0}
+                title={t.scanner.review}
+                className="w-12 h-12 bg-orange-500 text-white rounded-full flex items-center justify-center disabled:opacity-30"
+              >
+                <ListChecks size={22} />
+              </button>
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="flex-1 overflow-y-auto bg-[#faf9f6]">
+          <div className="max-w-3xl mx-auto p-4 md:p-8 pt-20 space-y-4">
+            <div className="space-y-1">
+              <h2 className="text-xl md:text-3xl font-bold text-gray-900">{t.scanner.reviewTitle}</h2>
+              <p className="text-sm text-gray-500">{t.scanner.reviewHint}</p>
+            </div>
+            {photos.map(photo => (
+              <PhotoReview
+                key={photo.id}
+                photo={photo}
+                onToggle={(index) => toggleDetection(photo.id, index)}
+                onRetry={() => analyze(photo.id, photo.image)}
+                onRemove={() => setPhotos(prev => prev.filter(p => p.id !== photo.id))}
+              />
+            ))}
+            <div className="sticky bottom-0 grid grid-cols-2 gap-3 py-4 bg-[#faf9f6]">
+              <button
+                onClick={() => setStep('capture')}
+                className="flex items-center justify-center gap-2 py-4 bg-white border-2 border-gray-100 text-gray-600 rounded-2xl font-bold text-sm"
+              >
+                <ArrowLeft size={18} /> {t.scanner.morePhotos}
+              </button>
+              <button
+                onClick={() => onConfirm(acceptedNames)}
+                disabled={acceptedNames.length === 0 || analyzingCount > 0}
+                className="flex items-center justify-center gap-2 py-4 bg-orange-500 hover:bg-orange-600 disabled:bg-gray-200 text-white rounded-2xl font-bold text-sm shadow-xl shadow-orange-200"
+              >
+                {analyzingCount > 0
+                  ? <><Loader2 size={18} className="animate-spin" /> {t.scanner.analyzing}</>
+                  : <><Check size={18} /> {t.scanner.add(acceptedNames.length)}</>}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ChevronDown, X } from 'lucide-react';
+import { DietaryProfile } from '../types';
+import { ALLERGEN_OPTIONS, DIET_OPTIONS, EQUIPMENT_OPTIONS } from '../utils/profile';
+import { optionLabel } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+type ListField = 'diets' | 'allergens' | 'equipment' | 'dislikes';
+
+interface ProfilePanelProps {
+  profile: DietaryProfile;
+  onToggle: (field: ListField, value: string) => void;
+  onUpdate: (changes: Partial<DietaryProfile>) => void;
+}
+
+const TIME_LIMITS = [15, 30, 45, 60];
+
+interface ChipGroupProps<T> {
+  options: T[];
+  isActive: (option: T) => boolean;
+  onToggle: (option: T) => void;
+  format?: (option: T) => string;
+}
+
+const ChipGroup = <T extends string | number>({ options, isActive, onToggle, format = String }: ChipGroupProps<T>) => (
+  <div className="flex flex-wrap gap-2">
+    {options.map(option => (
+      <button
+        key={option}
+        onClick={() => onToggle(option)}
+        aria-pressed={isActive(option)}
+        className={`px-3 py-1.5 md:px-4 md:py-2 rounded-full text-xs md:text-sm font-medium transition-all border ${
+          isActive(option)
+          ? 'bg-orange-500 text-white border-orange-500 shadow-md'
+          : 'bg-white text-gray-600 border-gray-100 hover:border-orange-200'
+        }`}
+      >
+        {format(option)}
+      </button>
+    ))}
+  </div>
+);
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <span className="text-xs font-bold text-gray-400 uppercase tracking-widest ml-1 block">{children}</span>
+);
+
+export const ProfilePanel = ({ profile, onToggle, onUpdate }: ProfilePanelProps) => {
+  const { t } = useI18n();
+  const label = (option: string) => optionLabel(t, option);
+  const [expanded, setExpanded] = useState(false);
+  const [dislikeDraft, setDislikeDraft] = useState('');
+  const restrictionCount = profile.allergens.length + profile.dislikes.length + profile.equipment.length + (profile.maxMinutes ? 1 : 0);
+
+  const addDislike = () => {
+    const value = dislikeDraft.trim().toLowerCase();
+    if (value && !profile.dislikes.includes(value)) onToggle('dislikes', value);
+    setDislikeDraft('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <SectionLabel>{t.profile.preferences}</SectionLabel>
+      <ChipGroup options={DIET_OPTIONS} isActive={diet => profile.diets.includes(diet)} onToggle={diet => onToggle('diets', diet)} format={label} />
+
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="flex items-center gap-1 text-xs font-bold text-gray-400 hover:text-orange-500 transition-colors ml-1"
+      >
+        <ChevronDown size={14} className={`transition-transform ${expanded ? 'rotate-180' : ''}`} />
+        {t.profile.restrictions}{restrictionCount > 0 && ` (${restrictionCount})`}
+      </button>
+
+      {expanded && (
+        <div className="p-4 bg-white border border-gray-100 rounded-2xl shadow-sm space-y-5 animate-fade-in">
+          <div className="space-y-2">
+            <SectionLabel>{t.profile.allergens}</SectionLabel>
+            <ChipGroup
+              options={ALLERGEN_OPTIONS}
+              isActive={allergen => profile.allergens.includes(allergen)}
+              onToggle={allergen => onToggle('allergens', allergen)}
+              format={label}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <SectionLabel>{t.profile.dislikes}</SectionLabel>
+            <div className="flex flex-wrap items-center gap-2">
+              {profile.dislikes.map(dislike => (
+                <span key={dislike} className="flex items-center gap-1 pl-3 pr-1.5 py-1.5 bg-gray-50 border border-gray-100 rounded-full text-xs md:text-sm text-gray-600">
+                  {dislike}
+                  <button onClick={() => onToggle('dislikes', dislike)} className="p-0.5 rounded-full hover:bg-black/10" title={t.common.remove(dislike)}>
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+              <form onSubmit={(e) => { e.preventDefault(); addDislike(); }}>
+                <input
+                  value={dislikeDraft}
+                  onChange={(e) => setDislikeDraft(e.target.value)}
+                  onBlur={addDislike}
+                  placeholder={t.profile.dislikePlaceholder}
+                  className="px-3 py-1.5 border border-gray-100 rounded-full text-xs md:text-sm outline-none focus:border-orange-500 w-32"
+                />
+              </form>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <SectionLabel>{t.profile.equipment}</SectionLabel>
+            <ChipGroup
+              options={EQUIPMENT_OPTIONS}
+              isActive={equipment => profile.equipment.includes(equipment)}
+              onToggle={equipment => onToggle('equipment', equipment)}
+              format={label}
+            />
+            <p className="text-xs text-gray-400 ml-1">{t.profile.equipmentHint}</p>
+          </div>
+
+          <div className="space-y-2">
+            <SectionLabel>{t.profile.maxTime}</SectionLabel>
+            <ChipGroup
+              options={TIME_LIMITS}
+              isActive={minutes => profile.maxMinutes === minutes}
+              onToggle={minutes => onUpdate({ maxMinutes: profile.maxMinutes === minutes ? undefined : minutes })}
+              format={t.profile.minutes}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Languages } from 'lucide-react';
+import { Settings, TextSize } from '../types';
+import { LANGUAGES, UnitSystem, isLanguage } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import { TEXT_SIZES } from '../hooks/useSettings';
+import { SHORTCUTS, ShortcutAction } from '../hooks/useKeyboardShortcuts';
+
+interface SettingsMenuProps {
+  textSize: TextSize;
+  highContrast: boolean;
+  onChange: (changes: Partial<Settings>) => void;
+}
+
+const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'us'];
+const SHORTCUT_ACTIONS = Object.keys(SHORTCUTS) as ShortcutAction[];
+
+const optionClassName = (selected: boolean) => `px-3 py-2 rounded-xl text-xs text-left font-medium border transition-all ${
+  selected ? 'bg-orange-500 text-white border-orange-500' : 'bg-white text-gray-600 border-gray-100 hover:border-orange-200'
+}`;
+
+// Idioma, medidas, tamanho do texto e contraste no cabeçalho
+export const SettingsMenu = ({ textSize, highContrast, onChange }: SettingsMenuProps) => {
+  const { t, language, unitSystem } = useI18n();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setOpen(false);
+      buttonRef.current?.focus();
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKey);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKey);
+    };
+  }, [open]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        ref={buttonRef}
+        onClick={() => setOpen(prev => !prev)}
+        title={t.settings.title}
+        aria-label={t.settings.title}
+        aria-expanded={open}
+        className={`transition-colors text-xs md:text-sm font-bold flex items-center gap-1 ${open ? 'text-orange-500' : 'text-gray-400 hover:text-orange-500'}`}
+      >
+        <Languages size={16} /> <span className="uppercase">{language.split('-')[0]}</span>
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-3 w-64 max-h-[80vh] overflow-y-auto p-4 bg-white border border-gray-100 rounded-2xl shadow-xl space-y-4 animate-fade-in">
+          <label className="block space-y-1.5">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest block">{t.settings.language}</span>
+            <select
+              value={language}
+              onChange={(e) => { if (isLanguage(e.target.value)) onChange({ language: e.target.value }); }}
+              className="w-full px-3 py-2 border border-gray-100 rounded-xl text-sm outline-none focus:border-orange-500 bg-white"
+            >
+              {LANGUAGES.map(option => <option key={option.code} value={option.code}>{option.label}</option>)}
+            </select>
+          </label>
+
+          <div className="space-y-1.5">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest block">{t.settings.units}</span>
+            <div role="group" aria-label={t.settings.units} className="flex flex-col gap-1.5">
+              {UNIT_SYSTEMS.map(system => (
+                <button
+                  key={system}
+                  onClick={() => onChange({ unitSystem: system })}
+                  aria-pressed={unitSystem === system}
+                  className={optionClassName(unitSystem === system)}
+                >
+                  {t.settings[system]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest block">{t.settings.display}</span>
+            <div role="group" aria-label={t.settings.textSize} className="grid grid-cols-3 gap-1.5">
+              {TEXT_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => onChange({ textSize: size })}
+                  aria-pressed={textSize === size}
+                  title={`${t.settings.textSize}: ${t.settings.textSizes[size]}`}
+                  className={`${optionClassName(textSize === size)} text-center`}
+                >
+                  {t.settings.textSizes[size]}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => onChange({ highContrast: !highContrast })}
+              aria-pressed={highContrast}
+              className={`w-full ${optionClassName(highContrast)}`}
+            >
+              {t.settings.highContrast}
+            </button>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-xs font-bold text-gray-400 uppercase tracking-widest block">{t.settings.shortcuts}</span>
+            <dl className="space-y-1 text-xs text-gray-600">
+              {SHORTCUT_ACTIONS.map(action => (
+                <div key={action} className="flex items-center justify-between gap-2">
+                  <dt>{t.shortcuts[action]}</dt>
+                  <dd><kbd className="px-1.5 py-0.5 rounded-md border border-gray-200 bg-gray-50 font-mono text-gray-700">{SHORTCUTS[action].label}</kbd></dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
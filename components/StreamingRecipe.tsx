@@ -0,0 +1,86 @@
+import React from 'react';
+import { Clock, Loader2, Refrigerator, Utensils, X } from 'lucide-react';
+import { Recipe } from '../types';
+import { formatIngredient } from '../utils/units';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface StreamingRecipeProps {
+  draft: Partial<Recipe>;
+  onCancel: () => void;
+}
+
+const Placeholder = ({ className }: { className: string }) => (
+  <div className={`bg-gray-100 rounded-lg animate-pulse ${className}`} />
+);
+
+// Receita sendo montada conforme o modelo responde
+export const StreamingRecipe = ({ draft, onCancel }: StreamingRecipeProps) => {
+  const { t, format } = useI18n();
+
+  return (
+    <div className="animate-fade-in space-y-6 max-w-3xl mx-auto">
+      <div aria-busy="true" className="bg-white rounded-3xl shadow-xl border border-gray-100 p-6 md:p-10 space-y-6 md:space-y-8">
+        <div className="border-b border-gray-100 pb-4">
+          {draft.name
+            ? <h2 className="text-2xl md:text-4xl font-bold text-gray-900 leading-tight">{draft.name}</h2>
+            : <Placeholder className="h-9 w-2/3" />}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs md:text-sm font-bold text-gray-500">
+          <Clock size={18} className="text-orange-500" />
+          {draft.totalTime ?? <Placeholder className="h-4 w-20" />}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Refrigerator size={14} /> {t.common.ingredients}
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {draft.ingredients?.length
+              ? draft.ingredients.map((ing, i) => (
+                <span key={i} className="px-2.5 py-1.5 bg-orange-50 text-orange-700 rounded-lg text-xs md:text-sm font-medium border border-orange-100 animate-fade-in">
+                  {formatIngredient(ing, format)}
+                </span>
+              ))
+              : (
+                <>
+                  <Placeholder className="h-8 w-20" />
+                  <Placeholder className="h-8 w-24" />
+                  <Placeholder className="h-8 w-16" />
+                </>
+              )}
+          </div>
+        </div>
+
+        <div className="space-y-5">
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-widest flex items-center gap-2">
+            <Utensils size={14} /> {t.common.method}
+          </h3>
+          <div className="space-y-4">
+            {draft.instructions?.map((step, i) => (
+              <div key={i} className="flex gap-4 animate-fade-in">
+                <span className="flex-shrink-0 w-6 h-6 rounded-full bg-orange-100 text-orange-600 text-xs font-bold flex items-center justify-center">
+                  {i + 1}
+                </span>
+                <p className="text-gray-700 leading-relaxed text-sm">{step}</p>
+              </div>
+            ))}
+            {!draft.tip && <Placeholder className="h-4 w-full" />}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-xl mx-auto w-full flex gap-3">
+        <div className="flex-1 flex items-center justify-center gap-3 py-4 bg-orange-50 text-orange-600 rounded-2xl font-bold text-sm md:text-base border border-orange-100">
+          <Loader2 className="animate-spin" size={20} /> {t.common.cookingIdeas}
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-5 py-4 bg-white border border-gray-200 rounded-2xl font-bold text-sm text-gray-600 hover:bg-gray-50 transition-all shadow-sm"
+        >
+          <X size={18} /> {t.common.cancel}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useEffect, useRef } from 'react';
+import { AlertTriangle, CheckCircle2, Info, X } from 'lucide-react';
+import { Toast, useToasts } from '../hooks/useToasts';
+import { useI18n } from '../i18n/I18nProvider';
+
+type ToastState = ReturnType<typeof useToasts>;
+
+// Sem provider (ex.: componente renderizado isolado) os avisos são descartados
+const ToastContext = createContext<Pick<ToastState, 'showToast' | 'dismissToast'>>({
+  showToast: () => '',
+  dismissToast: () => {},
+});
+
+export const useToast = () => useContext(ToastContext);
+
+const TONE_STYLES = {
+  info: { icon: Info, className: 'bg-white border-gray-200 text-gray-800', iconClassName: 'text-orange-500' },
+  success: { icon: CheckCircle2, className: 'bg-green-50 border-green-200 text-green-800', iconClassName: 'text-green-600' },
+  error: { icon: AlertTriangle, className: 'bg-red-50 border-red-100 text-red-800', iconClassName: 'text-red-500' },
+};
+
+const ToastItem = ({ toast, onDismiss }: { key?: React.Key; toast: Toast; onDismiss: () => void }) => {
+  const { t } = useI18n();
+  const actionRef = useRef<HTMLButtonElement>(null);
+  const { icon: Icon, className, iconClassName } = TONE_STYLES[toast.tone ?? 'info'];
+
+  // O aviso com ação responde a um clique do usuário: o foco vai para a resposta
+  useEffect(() => {
+    actionRef.current?.focus();
+  }, []);
+
+  return (
+    <div
+      onKeyDown={(e) => { if (e.key === 'Escape') onDismiss(); }}
+      className={`pointer-events-auto w-full p-4 rounded-xl border shadow-xl flex items-start gap-3 animate-fade-in ${className}`}
+    >
+      <Icon className={`flex-shrink-0 mt-0.5 ${iconClassName}`} size={18} />
+      <div className="flex-1 space-y-2">
+        <p className="text-sm leading-relaxed">{toast.message}</p>
+        {toast.action && (
+          <button
+            ref={actionRef}
+            onClick={() => { toast.action!.onClick(); onDismiss(); }}
+            className="text-xs font-bold uppercase tracking-widest underline underline-offset-2"
+          >
+            {toast.action.label}
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss} title={t.common.close} className="opacity-60 hover:opacity-100">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+// As duas regiões existem desde o início para os leitores de tela anunciarem o que entrar nelas
+export const ToastProvider = ({ value, children }: { value: ToastState; children: React.ReactNode }) => {
+  const { toasts, showToast, dismissToast } = value;
+  const renderToasts = (urgent: boolean) =>
+    toasts
+      .filter(toast => (toast.tone === 'error') === urgent)
+      .map(toast => <ToastItem key={toast.id} toast={toast} onDismiss={() => dismissToast(toast.id)} />);
+
+  return (
+    <ToastContext.Provider value={{ showToast, dismissToast }}>
+      {children}
+      <div className="fixed bottom-4 inset-x-4 z-[110] flex flex-col items-center gap-2 pointer-events-none print:hidden">
+        <div role="alert" className="w-full max-w-md flex flex-col gap-2">{renderToasts(true)}</div>
+        <div role="status" className="w-full max-w-md flex flex-col gap-2">{renderToasts(false)}</div>
+      </div>
+    </ToastContext.Provider>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Columns2, Clock, Check } from 'lucide-react';
+import { RecipeVariation } from '../types';
+import { formatIngredient } from '../utils/units';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface VariationTabsProps {
+  variations: RecipeVariation[];
+  activeIndex: number;
+  comparing: boolean;
+  onSelect: (index: number) => void;
+  onToggleCompare: () => void;
+}
+
+export const VariationTabs = ({ variations, activeIndex, comparing, onSelect, onToggleCompare }: VariationTabsProps) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center justify-between gap-2 print:hidden">
+      <div className="flex items-center gap-1 min-w-0">
+        <button
+          onClick={() => onSelect(activeIndex - 1)}
+          disabled={comparing || activeIndex === 0}
+          className="p-2 rounded-full text-gray-400 hover:text-orange-500 disabled:opacity-30"
+          title={t.variations.previous}
+        >
+          <ChevronLeft size={18} />
+        </button>
+        <div className="flex gap-1.5 overflow-x-auto">
+          {variations.map((variation, i) => (
+            <button
+              key={variation.entryId}
+              onClick={() => onSelect(i)}
+              title={variation.recipe.name}
+              aria-pressed={!comparing && i === activeIndex}
+              className={`px-3 py-1.5 rounded-full text-xs font-bold uppercase whitespace-nowrap border transition-all ${
+                !comparing && i === activeIndex
+                  ? 'bg-orange-500 text-white border-orange-500'
+                  : 'bg-white text-gray-500 border-gray-100 hover:border-orange-200'
+              }`}
+            >
+              {t.variations.idea(i + 1)}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onSelect(activeIndex + 1)}
+          disabled={comparing || activeIndex === variations.length - 1}
+          className="p-2 rounded-full text-gray-400 hover:text-orange-500 disabled:opacity-30"
+          title={t.variations.next}
+        >
+          <ChevronRight size={18} />
+        </button>
+      </div>
+      <button
+        onClick={onToggleCompare}
+        aria-pressed={comparing}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${
+          comparing ? 'bg-orange-500 text-white border-orange-500' : 'bg-white text-gray-500 border-gray-100 hover:border-orange-200'
+        }`}
+      >
+        <Columns2 size={14} /> {t.variations.compare}
+      </button>
+    </div>
+  );
+};
+
+interface VariationCompareProps {
+  variations: RecipeVariation[];
+  activeIndex: number;
+  onKeep: (index: number) => void;
+}
+
+export const VariationCompare = ({ variations, activeIndex, onKeep }: VariationCompareProps) => {
+  const { t, format } = useI18n();
+
+  return (
+    <div className={`grid gap-4 grid-cols-1 ${variations.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'} animate-fade-in`}>
+      {variations.map((variation, i) => (
+        <div
+          key={variation.entryId}
+          className={`bg-white rounded-3xl overflow-hidden shadow-xl border flex flex-col ${i === activeIndex ? 'border-orange-300' : 'border-gray-100'}`}
+        >
+          {variation.recipe.imageUrl && (
+            <img src={variation.recipe.imageUrl} alt={variation.recipe.name} className="w-full aspect-video object-cover" />
+          )}
+          <div className="p-5 space-y-4 flex-1 flex flex-col">
+            <div className="space-y-1">
+              <span className="text-xs font-bold text-orange-400 uppercase tracking-widest">{t.variations.idea(i + 1)}</span>
+              <h3 className="text-lg font-bold text-gray-900 leading-tight">{variation.recipe.name}</h3>
+              <div className="flex items-center gap-1.5 text-xs font-bold text-gray-500">
+                <Clock size={14} className="text-orange-500" /> {variation.recipe.totalTime}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {variation.recipe.ingredients.map((ing, j) => (
+                <span key={j} className="px-2 py-1 bg-orange-50 text-orange-700 rounded-lg text-xs font-medium border border-orange-100">
+                  {formatIngredient(ing, format)}
+                </span>
+              ))}
+            </div>
+            <ol className="space-y-1.5 text-xs text-gray-600 list-decimal list-inside flex-1">
+              {variation.recipe.instructions.map((step, j) => <li key={j}>{step}</li>)}
+            </ol>
+            <button
+              onClick={() => onKeep(i)}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-orange-500 hover:bg-orange-600 text-white rounded-2xl font-bold text-xs md:text-sm transition-all"
+            >
+              <Check size={16} /> {t.variations.keep}
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+export type ProviderName = 'proxy' | 'local';
+
+export interface AppConfig {
+  provider: ProviderName;
+  // Onde o servidor do app expõe as rotas /recipe, /scan, /image e /nutrition
+  apiBaseUrl: string;
+  // Cache offline (public/sw.js): só no build, para não atrapalhar o hot reload do dev
+  serviceWorker: boolean;
+}
+
+// Valores injetados pelo Vite (ver vite.config.ts). A chave do Gemini fica só no servidor (ver server/);
+// o provider "local" dispensa rede e servidor.
+export const config: AppConfig = {
+  provider: process.env.RECIPE_PROVIDER === 'local' ? 'local' : 'proxy',
+  apiBaseUrl: process.env.API_BASE_URL || '/api',
+  serviceWorker: process.env.NODE_ENV === 'production',
+};
@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Liga a câmera traseira enquanto `enabled` for verdadeiro e desliga ao sair
+export const useCamera = (enabled: boolean) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setFailed(true);
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+        setFailed(false);
+      })
+      .catch(err => {
+        console.error('Erro ao acessar câmera:', err);
+        setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [enabled]);
+
+  return { videoRef, failed };
+};
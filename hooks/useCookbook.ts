@@ -0,0 +1,73 @@
+import { useEffect, useRef, useState } from 'react';
+import { NutritionEstimate, PantryItem, Recipe, SavedRecipe } from '../types';
+import { getAll, put, remove } from '../utils/db';
+
+const STORE = 'recipes';
+
+const byNewest = (a: SavedRecipe, b: SavedRecipe) => b.createdAt.localeCompare(a.createdAt);
+
+export const useCookbook = () => {
+  const [entries, setEntries] = useState<SavedRecipe[]>([]);
+  // Atualizações assíncronas (ex.: foto que chega depois) precisam ver a lista mais recente
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+
+  useEffect(() => {
+    getAll<SavedRecipe>(STORE)
+      // Receitas adicionadas antes de o banco responder (ex.: link aberto na hora) continuam na lista
+      .then(saved => setEntries(prev => [
+        ...prev,
+        ...saved.filter(entry => !prev.some(added => added.id === entry.id)),
+      ].sort(byNewest)))
+      .catch(err => console.error('Falha ao carregar o livro de receitas:', err));
+  }, []);
+
+  const persist = (entry: SavedRecipe) =>
+    put(STORE, entry).catch(err => console.error('Falha ao salvar receita:', err));
+
+  const addRecipe = (recipe: Recipe, ingredients: PantryItem[], preference: string): SavedRecipe => {
+    const entry: SavedRecipe = {
+      id: crypto.randomUUID(),
+      recipe,
+      ingredients,
+      preference,
+      createdAt: new Date().toISOString(),
+      favorite: false,
+      tags: [],
+    };
+    entriesRef.current = [entry, ...entriesRef.current];
+    setEntries(prev => [entry, ...prev]);
+    persist(entry);
+    return entry;
+  };
+
+  const updateEntry = (id: string, update: (entry: SavedRecipe) => SavedRecipe) => {
+    const current = entriesRef.current.find(entry => entry.id === id);
+    if (!current) return;
+    const updated = update(current);
+    entriesRef.current = entriesRef.current.map(entry => (entry.id === id ? updated : entry));
+    setEntries(prev => prev.map(entry => (entry.id === id ? updated : entry)));
+    persist(updated);
+  };
+
+  const toggleFavorite = (id: string) => updateEntry(id, entry => ({ ...entry, favorite: !entry.favorite }));
+
+  const rename = (id: string, name: string) =>
+    updateEntry(id, entry => ({ ...entry, recipe: { ...entry.recipe, name } }));
+
+  const setImage = (id: string, imageUrl: string) =>
+    updateEntry(id, entry => ({ ...entry, recipe: { ...entry.recipe, imageUrl } }));
+
+  const setNutrition = (id: string, nutrition: NutritionEstimate) =>
+    updateEntry(id, entry => ({ ...entry, recipe: { ...entry.recipe, nutrition } }));
+
+  const setTags = (id: string, tags: string[]) => updateEntry(id, entry => ({ ...entry, tags }));
+
+  const deleteEntry = (id: string) => {
+    entriesRef.current = entriesRef.current.filter(entry => entry.id !== id);
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    remove(STORE, id).catch(err => console.error('Falha ao apagar receita:', err));
+  };
+
+  return { entries, addRecipe, toggleFavorite, rename, setImage, setNutrition, setTags, deleteEntry };
+};
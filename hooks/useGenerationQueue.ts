@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { DietaryProfile, PantryItem, QueuedGeneration } from '../types';
+import { Language } from '../i18n/languages';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+const STORAGE_KEY = 'oqta:generation-queue';
+
+export const useGenerationQueue = () => {
+  const [queue, setQueue] = useState<QueuedGeneration[]>(() => loadJSON<QueuedGeneration[]>(STORAGE_KEY, []));
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEY, queue);
+  }, [queue]);
+
+  const enqueue = (ingredients: PantryItem[], profile: DietaryProfile, language: Language) =>
+    setQueue(prev => [...prev, { id: crypto.randomUUID(), createdAt: new Date().toISOString(), ingredients, profile, language }]);
+
+  const remove = (id: string) => setQueue(prev => prev.filter(item => item.id !== id));
+
+  return { queue, enqueue, remove };
+};
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+
+export type ShortcutAction = 'generate' | 'variation' | 'copy';
+
+interface Shortcut {
+  // Texto exibido na lista de atalhos
+  label: string;
+  // Valor de aria-keyshortcuts
+  aria: string;
+  matches: (e: KeyboardEvent) => boolean;
+}
+
+// Sempre com modificador para não atrapalhar a digitação; e.code mantém a tecla física em qualquer layout
+export const SHORTCUTS: Record<ShortcutAction, Shortcut> = {
+  generate: {
+    label: 'Ctrl + Enter',
+    aria: 'Control+Enter Meta+Enter',
+    matches: e => e.key === 'Enter' && (e.ctrlKey || e.metaKey) && !e.altKey,
+  },
+  variation: {
+    label: 'Alt + N',
+    aria: 'Alt+N',
+    matches: e => e.code === 'KeyN' && e.altKey && !e.ctrlKey && !e.metaKey,
+  },
+  copy: {
+    label: 'Alt + C',
+    aria: 'Alt+C',
+    matches: e => e.code === 'KeyC' && e.altKey && !e.ctrlKey && !e.metaKey,
+  },
+};
+
+// Só as ações presentes em `handlers` respondem; com `enabled` falso (ex.: diálogo aberto) nenhuma responde
+export const useKeyboardShortcuts = (enabled: boolean, handlers: Partial<Record<ShortcutAction, () => void>>) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.repeat) return;
+      const action = (Object.keys(SHORTCUTS) as ShortcutAction[]).find(name => SHORTCUTS[name].matches(e));
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [enabled]);
+};
@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface KitchenTimer {
+  id: string;
+  label: string;
+  endsAt: number;
+}
+
+const playAlarm = () => {
+  try {
+    const audio = new AudioContext();
+    [0, 0.4, 0.8].forEach(offset => {
+      const oscillator = audio.createOscillator();
+      oscillator.frequency.value = 880;
+      oscillator.connect(audio.destination);
+      oscillator.start(audio.currentTime + offset);
+      oscillator.stop(audio.currentTime + offset + 0.25);
+    });
+  } catch (err) {
+    console.error('Falha ao tocar o alarme:', err);
+  }
+  navigator.vibrate?.([300, 150, 300]);
+};
+
+export const useKitchenTimers = (onFinish?: (timer: KitchenTimer) => void) => {
+  const [timers, setTimers] = useState<KitchenTimer[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const finishedRef = useRef(new Set<string>());
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  useEffect(() => {
+    if (!timers.length) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timers.length]);
+
+  useEffect(() => {
+    timers.forEach(timer => {
+      if (timer.endsAt <= now && !finishedRef.current.has(timer.id)) {
+        finishedRef.current.add(timer.id);
+        playAlarm();
+        onFinishRef.current?.(timer);
+      }
+    });
+  }, [now, timers]);
+
+  const startTimer = (label: string, seconds: number) => {
+    const startedAt = Date.now();
+    setNow(startedAt);
+    setTimers(prev => [...prev, { id: `${startedAt}-${label}`, label, endsAt: startedAt + seconds * 1000 }]);
+  };
+
+  const removeTimer = (id: string) => {
+    finishedRef.current.delete(id);
+    setTimers(prev => prev.filter(timer => timer.id !== id));
+  };
+
+  const remainingSeconds = (timer: KitchenTimer) => Math.max(0, (timer.endsAt - now) / 1000);
+
+  return { timers, startTimer, removeTimer, remainingSeconds };
+};
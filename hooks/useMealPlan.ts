@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { MealPlan, PlannedMeal } from '../types';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+const STORAGE_KEY = 'oqta:meal-plan';
+
+export const useMealPlan = () => {
+  const [plan, setPlan] = useState<MealPlan | null>(() => loadJSON<MealPlan | null>(STORAGE_KEY, null));
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEY, plan);
+  }, [plan]);
+
+  const addMeal = (meal: PlannedMeal) =>
+    setPlan(prev => ({ createdAt: prev?.createdAt ?? new Date().toISOString(), meals: [...(prev?.meals ?? []), meal] }));
+
+  const setCooked = (id: string, cooked: boolean) =>
+    setPlan(prev => prev && { ...prev, meals: prev.meals.map(meal => (meal.id === id ? { ...meal, cooked } : meal)) });
+
+  const clear = () => setPlan(null);
+
+  return { plan, addMeal, setCooked, clear };
+};
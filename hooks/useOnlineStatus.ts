@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// navigator.onLine só garante o "offline": online pode ser uma rede sem saída, por isso a fila também trata erro de rede
+export const useOnlineStatus = () => {
+  const [online, setOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+};
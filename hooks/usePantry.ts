@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { PantryItem, PantryUsage } from '../types';
+import { mergePantryItems, parsePantryText } from '../utils/pantry';
+import { applyUsage, restoreUsage } from '../utils/mealPlan';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+const STORAGE_KEY = 'oqta:pantry';
+
+export const usePantry = () => {
+  const [items, setItems] = useState<PantryItem[]>(() => loadJSON<PantryItem[]>(STORAGE_KEY, []));
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEY, items);
+  }, [items]);
+
+  const addItems = (incoming: PantryItem[]) => setItems(prev => mergePantryItems(prev, incoming));
+
+  const addFromText = (text: string) => addItems(parsePantryText(text));
+
+  const updateItem = (id: string, changes: Partial<PantryItem>) =>
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  const removeItem = (id: string) => setItems(prev => prev.filter(item => item.id !== id));
+
+  const clear = () => setItems([]);
+
+  // Baixa (ou devolve) o que uma refeição planejada usou
+  const consume = (usage: PantryUsage[]) => setItems(prev => applyUsage(prev, usage));
+
+  const restore = (usage: PantryUsage[]) => setItems(prev => restoreUsage(prev, usage));
+
+  return { items, addItems, addFromText, updateItem, removeItem, clear, consume, restore };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { DietaryProfile } from '../types';
+import { EMPTY_PROFILE } from '../utils/profile';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+const STORAGE_KEY = 'oqta:profile';
+
+export const useProfile = () => {
+  const [profile, setProfile] = useState<DietaryProfile>(() => ({
+    ...EMPTY_PROFILE,
+    ...loadJSON<Partial<DietaryProfile>>(STORAGE_KEY, {}),
+  }));
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEY, profile);
+  }, [profile]);
+
+  const updateProfile = (changes: Partial<DietaryProfile>) => setProfile(prev => ({ ...prev, ...changes }));
+
+  // Liga/desliga um valor em uma das listas do perfil (dietas, alergias, equipamentos...)
+  const toggle = (field: 'diets' | 'allergens' | 'equipment' | 'dislikes', value: string) =>
+    setProfile(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value) ? prev[field].filter(v => v !== value) : [...prev[field], value],
+    }));
+
+  return { profile, updateProfile, toggle };
+};
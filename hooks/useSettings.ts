@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { Settings, TextSize } from '../types';
+import { DEFAULT_UNIT_SYSTEM, detectLanguage, isLanguage } from '../i18n/languages';
+import { loadJSON, saveJSON } from '../utils/storage';
+
+const STORAGE_KEY = 'oqta:settings';
+
+export const TEXT_SIZES: TextSize[] = ['normal', 'large', 'larger'];
+
+// Tamanho da fonte da raiz: as classes do Tailwind usam rem e crescem juntas
+const ROOT_FONT_SIZE: Record<TextSize, string> = { normal: '100%', large: '112.5%', larger: '125%' };
+
+const prefersContrast = () => !!window.matchMedia?.('(prefers-contrast: more)').matches;
+
+export const useSettings = () => {
+  const [settings, setSettings] = useState<Settings>(() => {
+    const saved = loadJSON<Partial<Settings>>(STORAGE_KEY, {});
+    return { ...saved, language: isLanguage(saved.language) ? saved.language : detectLanguage() };
+  });
+
+  useEffect(() => {
+    saveJSON(STORAGE_KEY, settings);
+  }, [settings]);
+
+  const updateSettings = (changes: Partial<Settings>) => setSettings(prev => ({ ...prev, ...changes }));
+
+  // Sistema de medidas efetivo: o escolhido pelo usuário ou o padrão do idioma
+  const unitSystem = settings.unitSystem ?? DEFAULT_UNIT_SYSTEM[settings.language];
+  const textSize = settings.textSize && TEXT_SIZES.includes(settings.textSize) ? settings.textSize : 'normal';
+  const highContrast = settings.highContrast ?? prefersContrast();
+
+  useEffect(() => {
+    const root = document.documentElement;
+    root.style.fontSize = ROOT_FONT_SIZE[textSize];
+    root.classList.toggle('high-contrast', highContrast);
+  }, [textSize, highContrast]);
+
+  return { settings, unitSystem, textSize, highContrast, updateSettings };
+};
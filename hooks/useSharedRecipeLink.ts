@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { Recipe } from '../types';
+import { readRecipeLink } from '../utils/recipeImport';
+
+// Abre a receita de um link compartilhado (#recipe=...) ao carregar a página ou quando o hash muda
+export const useSharedRecipeLink = (onRecipe: (recipe: Recipe) => void, onError: () => void) => {
+  const onRecipeRef = useRef(onRecipe);
+  onRecipeRef.current = onRecipe;
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    const open = async () => {
+      const link = window.location.href;
+      try {
+        const recipe = await readRecipeLink(link);
+        if (!recipe) return;
+        onRecipeRef.current(recipe);
+      } catch (err) {
+        console.error('Link de receita inválido:', err);
+        onErrorRef.current();
+      }
+      // Tira a receita da URL: recarregar a página não importa de novo
+      history.replaceState(null, '', link.split('#')[0]);
+    };
+
+    open();
+    window.addEventListener('hashchange', open);
+    return () => window.removeEventListener('hashchange', open);
+  }, []);
+};
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+
+// Tempo na tela dos avisos sem ação; os que pedem confirmação ficam até o usuário responder
+const TOAST_DURATION = 6000;
+
+export interface ToastOptions {
+  message: string;
+  tone?: 'info' | 'success' | 'error';
+  // Botão no próprio aviso (ex.: confirmar uma exclusão)
+  action?: { label: string; onClick: () => void };
+}
+
+export interface Toast extends ToastOptions {
+  id: string;
+}
+
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const timersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => () => timersRef.current.forEach(timer => clearTimeout(timer)), []);
+
+  const dismissToast = (id: string) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  };
+
+  // O mesmo texto não empilha: o aviso antigo sai e o novo é anunciado de novo
+  const showToast = (options: ToastOptions) => {
+    const id = crypto.randomUUID();
+    setToasts(prev => [...prev.filter(toast => toast.message !== options.message), { ...options, id }]);
+    if (!options.action) timersRef.current.set(id, setTimeout(() => dismissToast(id), TOAST_DURATION));
+    return id;
+  };
+
+  return { toasts, showToast, dismissToast };
+};
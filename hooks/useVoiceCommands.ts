@@ -0,0 +1,109 @@
+import { useEffect, useRef, useState } from 'react';
+import { Language, LOCALES } from '../i18n/languages';
+import { normalizeText } from '../utils/text';
+
+export type VoiceCommand = 'next' | 'previous' | 'repeat' | 'timer';
+
+// A Web Speech API de reconhecimento ainda não está nos tipos do DOM
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }>> }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as unknown as Record<string, SpeechRecognitionConstructor | undefined>;
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+const COMMANDS: Record<Language, [VoiceCommand, string[]][]> = {
+  'pt-BR': [
+    ['next', ['proximo', 'proxima', 'avancar', 'seguinte']],
+    ['previous', ['voltar', 'anterior']],
+    ['repeat', ['repetir', 'repete', 'de novo']],
+    ['timer', ['timer', 'cronometro', 'marcar tempo']],
+  ],
+  en: [
+    ['next', ['next', 'forward', 'continue']],
+    ['previous', ['back', 'previous']],
+    ['repeat', ['repeat', 'again']],
+    ['timer', ['timer', 'start timer']],
+  ],
+  es: [
+    ['next', ['siguiente', 'adelante', 'avanzar']],
+    ['previous', ['volver', 'anterior', 'atras']],
+    ['repeat', ['repetir', 'repite', 'otra vez']],
+    ['timer', ['temporizador', 'cronometro', 'timer']],
+  ],
+};
+
+export const matchVoiceCommand = (transcript: string, language: Language = 'pt-BR'): VoiceCommand | null => {
+  const text = normalizeText(transcript);
+  const found = COMMANDS[language].find(([, words]) => words.some(word => text.includes(word)));
+  return found ? found[0] : null;
+};
+
+export const useVoiceCommands = (enabled: boolean, onCommand: (command: VoiceCommand) => void, language: Language = 'pt-BR') => {
+  const [listening, setListening] = useState(false);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const supported = typeof window !== 'undefined' && !!getRecognitionConstructor();
+
+  useEffect(() => {
+    const Recognition = getRecognitionConstructor();
+    if (!enabled || !Recognition) return;
+
+    let stopped = false;
+    const recognition = new Recognition();
+    recognition.lang = LOCALES[language];
+    recognition.continuous = true;
+    recognition.interimResults = false;
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const command = matchVoiceCommand(event.results[i][0].transcript, language);
+        if (command) onCommandRef.current(command);
+      }
+    };
+    // O navegador encerra a escuta após silêncio; reinicia enquanto o modo estiver ativo
+    recognition.onend = () => {
+      if (stopped) {
+        setListening(false);
+        return;
+      }
+      try {
+        recognition.start();
+      } catch {
+        setListening(false);
+      }
+    };
+    recognition.onerror = (event) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        stopped = true;
+        setListening(false);
+      }
+    };
+
+    try {
+      recognition.start();
+      setListening(true);
+    } catch (err) {
+      console.error('Reconhecimento de voz indisponível:', err);
+    }
+
+    return () => {
+      stopped = true;
+      recognition.stop();
+      setListening(false);
+    };
+  }, [enabled, language]);
+
+  return { supported, listening };
+};
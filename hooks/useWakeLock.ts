@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+
+// Mantém a tela acesa enquanto `active` for verdadeiro (quando o navegador suporta a Screen Wake Lock API)
+export const useWakeLock = (active: boolean) => {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const acquire = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request('screen');
+        if (released) sentinel.release();
+      } catch (err) {
+        console.error('Wake lock indisponível:', err);
+      }
+    };
+
+    // O bloqueio é liberado quando a aba fica oculta; pede de novo ao voltar
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') acquire();
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibility);
+      sentinel?.release();
+    };
+  }, [active]);
+};
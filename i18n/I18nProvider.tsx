@@ -0,0 +1,11 @@
+import React, { createContext, useContext } from 'react';
+import { createI18n, I18n } from './index';
+
+// Sem provider (ex.: componente renderizado isolado) cai no português métrico
+const I18nContext = createContext<I18n>(createI18n('pt-BR', 'metric'));
+
+export const I18nProvider = ({ value, children }: { value: I18n; children: React.ReactNode }) => (
+  <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+);
+
+export const useI18n = (): I18n => useContext(I18nContext);
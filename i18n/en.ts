@@ -0,0 +1,256 @@
+import { Messages } from './pt-BR';
+
+export const en: Messages = {
+  common: {
+    appTitle: "What's In There? - Your No-Fuss Chef",
+    recipeTitle: (name: string) => `Recipe - ${name}`,
+    ingredients: 'Ingredients',
+    method: 'Method',
+    chefTip: "Chef's Tip",
+    cookingIdeas: 'Cooking up ideas...',
+    cancel: 'Cancel',
+    close: 'Close',
+    retry: 'Try again',
+    remove: (name: string) => `Remove ${name}`,
+    servings: (count: number) => `${count} ${count === 1 ? 'serving' : 'servings'}`,
+  },
+  header: {
+    brand: "WHAT'S IN THERE?",
+    cookbook: 'COOKBOOK',
+    planner: 'WEEKLY PLAN',
+    backToPlan: 'BACK TO PLAN',
+    newSearch: 'NEW SEARCH',
+    back: 'BACK',
+    offline: 'OFFLINE',
+    offlineHint: 'No connection: your cookbook is still available and new requests are queued',
+    queued: (count: number) => `· ${count} QUEUED`,
+  },
+  settings: {
+    title: 'Language, units and display',
+    language: 'Language',
+    units: 'Units',
+    metric: 'Metric (g, ml)',
+    us: 'US (cups, oz)',
+    display: 'Display',
+    textSize: 'Text size',
+    textSizes: { normal: 'Normal', large: 'Large', larger: 'Extra large' },
+    highContrast: 'High contrast',
+    shortcuts: 'Keyboard shortcuts',
+  },
+  shortcuts: {
+    generate: 'Create recipe',
+    variation: 'Another idea',
+    copy: 'Copy recipe',
+  },
+  announcements: {
+    recipeReady: (name: string) => `Recipe ready: ${name}.`,
+    copied: 'Recipe copied to the clipboard.',
+  },
+  errors: {
+    invalidRecipe: 'The AI returned an incomplete or unexpected recipe. Please try again.',
+    rateLimited: 'You sent too many requests in a short time. Wait a minute and try again.',
+    generic: "Couldn't create the recipe right now. Check your connection and try again.",
+    offlineVariation: "You're offline. Try another idea when the connection is back.",
+  },
+  home: {
+    title: 'What are we eating today?',
+    subtitle: "Tell me what's in your fridge and I'll sort out your meal.",
+    ingredientsLabel: 'Your Ingredients',
+    scan: 'SCAN FRIDGE',
+    create: 'Create Recipe',
+    createOffline: 'Create when back online',
+    onlyListed: "My AI will only use what you listed. If you have basic seasonings like salt and pepper, feel free to use them!",
+    footer: 'No extra ingredients • No fuss • Just what you have',
+  },
+  recipe: {
+    kcalPerServing: (kcal: number) => `${kcal} kcal/serving`,
+    straightforward: 'Simple Prep',
+    fewerServings: 'Fewer servings',
+    moreServings: 'More servings',
+    unlisted: "Heads up: this recipe uses ingredients you didn't list:",
+    checkProfile: 'Check against your profile:',
+    cookingMode: 'COOKING MODE',
+    generatedBy: "Made with the What's In There? app",
+    tryAnother: 'Try another idea',
+    variationLimit: 'Idea limit reached',
+    variationNeedsIngredients: 'Add ingredients to get another idea',
+  },
+  actions: {
+    copyMarkdownTitle: 'Copy as Markdown (MD)',
+    copyMarkdown: 'Copy (MD)',
+    copied: 'Copied',
+    share: 'Share',
+    shareTitle: (name: string) => `Recipe: ${name}`,
+    pdf: 'PDF',
+    pdfTitle: 'Download the recipe as a PDF',
+    card: 'Image',
+    cardTitle: 'Share a recipe card with the photo',
+    json: 'JSON',
+    jsonTitle: 'Download as JSON (schema.org) for other recipe apps',
+    exportFailed: "Couldn't export the recipe. Please try again.",
+    copyFailed: "Couldn't copy. Select the text and copy it manually.",
+    favorite: 'Favorite',
+    favorited: 'Favorited',
+  },
+  markdown: {
+    totalTime: 'Total time',
+    yields: 'Serves',
+    nutrition: 'Nutrition per serving (estimate)',
+    footer: "Made with What's In There?",
+  },
+  profile: {
+    preferences: 'Preferences (Optional)',
+    restrictions: 'ALLERGIES, RESTRICTIONS AND KITCHEN',
+    allergens: 'Allergies',
+    dislikes: "I don't like",
+    dislikePlaceholder: 'E.g. cilantro',
+    equipment: 'Equipment I have',
+    equipmentHint: 'With nothing selected, I assume a fully equipped kitchen.',
+    maxTime: 'Maximum time',
+    minutes: (minutes: number) => `${minutes} min`,
+    options: {
+      'Lanche Rápido': 'Quick snack',
+      'Saudável': 'Healthy',
+      Vegano: 'Vegan',
+      Vegetariano: 'Vegetarian',
+      'Low Carb': 'Low carb',
+      'Sem Glúten': 'Gluten-free',
+      'Sem Lactose': 'Lactose-free',
+      Leite: 'Milk',
+      Ovo: 'Egg',
+      'Glúten': 'Gluten',
+      Amendoim: 'Peanut',
+      Castanhas: 'Tree nuts',
+      Soja: 'Soy',
+      Peixe: 'Fish',
+      'Frutos do mar': 'Shellfish',
+      'Fogão': 'Stovetop',
+      Forno: 'Oven',
+      'Micro-ondas': 'Microwave',
+      Airfryer: 'Air fryer',
+      Liquidificador: 'Blender',
+      'Panela de pressão': 'Pressure cooker',
+    },
+  },
+  profileWarnings: {
+    allergen: (allergen: string, items: string) => `Contains ${allergen.toLowerCase()} (allergy): ${items}`,
+    diet: (diet: string, items: string) => `May not be ${diet.toLowerCase()}: ${items}`,
+    dislike: (dislike: string) => `Uses ${dislike}, which you marked as disliked`,
+    equipment: (equipment: string) => `The method seems to use a ${equipment.toLowerCase()}, which isn't in your kitchen`,
+    time: (totalTime: string, maxMinutes: number) => `Takes ${totalTime}, over your ${maxMinutes}-minute limit`,
+  },
+  pantry: {
+    placeholder: 'E.g. 6 eggs, 500g chicken, onion, milk exp 10/20...',
+    addMore: 'Add more...',
+    ingredient: 'Ingredient',
+    quantity: 'Qty.',
+    unit: 'Unit',
+    expiry: 'Expiry date',
+    add: 'ADD',
+    clear: 'CLEAR PANTRY',
+  },
+  scanner: {
+    title: 'Scan ingredients',
+    analyzedPhoto: 'Analyzed photo',
+    identifying: 'Identifying ingredients...',
+    failed: "Couldn't analyze this photo.",
+    tryAgain: 'TRY AGAIN',
+    nothingFound: 'No ingredients found in this photo.',
+    discardPhoto: 'DISCARD PHOTO',
+    cameraUnavailable: "Couldn't access the camera. You can still pick photos from your gallery.",
+    instructions: 'Take photos of the fridge, freezer, cupboard or a grocery receipt. As many as you like.',
+    qrHint: 'Point at a recipe QR code to open it.',
+    gallery: 'Pick from gallery',
+    takePhoto: 'Take photo',
+    review: 'Review ingredients',
+    reviewTitle: "Here's what I found",
+    reviewHint: 'Tap an item to accept or reject it. Low-confidence items start unchecked.',
+    morePhotos: 'More photos',
+    analyzing: 'Analyzing...',
+    add: (count: number) => `Add ${count}`,
+  },
+  variations: {
+    previous: 'Previous idea',
+    next: 'Next idea',
+    idea: (index: number) => `Idea ${index}`,
+    compare: 'COMPARE',
+    keep: 'Keep this one',
+  },
+  nutrition: {
+    loading: 'Calculating nutrition facts...',
+    title: 'Nutrition per serving',
+    source: 'Estimate based on the Brazilian Food Composition Table (TACO).',
+    byModel: (items: string) => ` Estimated by the AI: ${items}.`,
+    missing: (items: string) => ` Not included: ${items}.`,
+    fields: { calories: 'Calories', protein: 'Protein', carbs: 'Carbs', fat: 'Fat', fiber: 'Fiber' },
+  },
+  cookbook: {
+    title: 'Cookbook',
+    subtitle: "Everything you've cooked with the app is saved here.",
+    search: 'Search by name, ingredient or tag...',
+    favoritesOnly: 'Show favorites only',
+    favorite: 'Favorite',
+    removeTag: 'Remove tag',
+    tagPlaceholder: 'tag',
+    rename: 'RENAME',
+    delete: 'DELETE',
+    confirmDelete: (name: string) => `Delete "${name}" from your cookbook?`,
+    empty: 'No saved recipes yet.',
+    noResults: 'No recipes found.',
+  },
+  cooking: {
+    stepOf: (step: number, total: number) => `Step ${step} of ${total}`,
+    speakStep: (step: number, text: string) => `Step ${step}. ${text}`,
+    timerDone: (label: string) => `The ${label} timer is done.`,
+    timerFor: (label: string) => `${label} timer`,
+    stopReading: 'Stop reading aloud',
+    startReading: 'Read steps aloud',
+    voiceOff: 'Turn off voice commands',
+    voiceOn: 'Turn on voice commands',
+    exit: 'Exit cooking mode',
+    repeat: 'Repeat',
+    voiceHint: { say: 'Say', words: ['next', 'back', 'repeat', 'timer'], or: 'or' },
+    removeTimer: 'Remove timer',
+    previous: 'Back',
+    next: 'Next',
+    finish: 'Done',
+  },
+  planner: {
+    title: 'Weekly Plan',
+    subtitle: 'Several meals from what you have, using up what expires first.',
+    mealCount: 'How many meals',
+    perDay: 'Per day',
+    dinnerOnly: 'Dinner only',
+    lunchAndDinner: 'Lunch and dinner',
+    prioritize: "I'll prioritize:",
+    create: 'BUILD PLAN',
+    emptyPantry: 'Add ingredients on the home screen to build a plan.',
+    progress: (meal: number, total: number) => `Planning meal ${meal} of ${total}...`,
+    stop: 'STOP',
+    pantryNow: 'In the pantry now',
+    pantryEmpty: 'The pantry is empty.',
+    confirmDiscard: 'Discard this plan and build another one?',
+    newPlan: 'NEW PLAN',
+    uses: 'Uses:',
+    cooked: 'DONE',
+    markCooked: 'I COOKED IT',
+    uncookTitle: 'Unmark and return the ingredients',
+    cookTitle: 'Mark as cooked and take it out of the pantry',
+    slots: { lunch: 'Lunch', dinner: 'Dinner' },
+  },
+  import: {
+    button: 'IMPORT',
+    recipeFile: 'Open recipe (JSON or Markdown)',
+    scan: 'QR code or receipt photo',
+    listFile: 'Shopping list or receipt as text',
+    invalidRecipe: "Couldn't read a recipe in this file. Use the JSON or the text copied from the app.",
+    invalidLink: 'The recipe link is incomplete or corrupted.',
+    emptyList: 'No ingredients found in this file.',
+  },
+  queue: {
+    running: 'Creating the requests you made offline...',
+    waiting: 'Queued: recipes will be created when the connection is back.',
+    remove: 'Remove from queue',
+    ready: 'Recipes ready and saved to your cookbook:',
+  },
+};
@@ -0,0 +1,256 @@
+import { Messages } from './pt-BR';
+
+export const es: Messages = {
+  common: {
+    appTitle: '¿Qué Hay Ahí? - Tu Chef Sin Complicaciones',
+    recipeTitle: (name: string) => `Receta - ${name}`,
+    ingredients: 'Ingredientes',
+    method: 'Preparación',
+    chefTip: 'Consejo del Chef',
+    cookingIdeas: 'Cocinando ideas...',
+    cancel: 'Cancelar',
+    close: 'Cerrar',
+    retry: 'Intentar de nuevo',
+    remove: (name: string) => `Quitar ${name}`,
+    servings: (count: number) => `${count} ${count === 1 ? 'porción' : 'porciones'}`,
+  },
+  header: {
+    brand: '¿QUÉ HAY AHÍ?',
+    cookbook: 'RECETARIO',
+    planner: 'PLAN SEMANAL',
+    backToPlan: 'VOLVER AL PLAN',
+    newSearch: 'NUEVA BÚSQUEDA',
+    back: 'VOLVER',
+    offline: 'SIN CONEXIÓN',
+    offlineHint: 'Sin conexión: el recetario sigue disponible y los nuevos pedidos quedan en cola',
+    queued: (count: number) => `· ${count} EN COLA`,
+  },
+  settings: {
+    title: 'Idioma, medidas y lectura',
+    language: 'Idioma',
+    units: 'Medidas',
+    metric: 'Métrico (g, ml)',
+    us: 'Estadounidense (tazas, oz)',
+    display: 'Lectura',
+    textSize: 'Tamaño del texto',
+    textSizes: { normal: 'Normal', large: 'Grande', larger: 'Muy grande' },
+    highContrast: 'Alto contraste',
+    shortcuts: 'Atajos de teclado',
+  },
+  shortcuts: {
+    generate: 'Crear receta',
+    variation: 'Otra idea',
+    copy: 'Copiar receta',
+  },
+  announcements: {
+    recipeReady: (name: string) => `Receta lista: ${name}.`,
+    copied: 'Receta copiada al portapapeles.',
+  },
+  errors: {
+    invalidRecipe: 'La IA devolvió una receta incompleta o con un formato inesperado. Inténtalo de nuevo.',
+    rateLimited: 'Hiciste muchos pedidos en poco tiempo. Espera un minuto e inténtalo de nuevo.',
+    generic: 'No se pudo crear la receta ahora. Revisa tu conexión e inténtalo de nuevo.',
+    offlineVariation: 'Sin conexión. Prueba otra idea cuando vuelva internet.',
+  },
+  home: {
+    title: '¿Qué comemos hoy?',
+    subtitle: 'Dime qué tienes en la nevera y yo resuelvo tu comida.',
+    ingredientsLabel: 'Tus Ingredientes',
+    scan: 'ESCANEAR NEVERA',
+    create: 'Crear Receta',
+    createOffline: 'Crear cuando vuelva la conexión',
+    onlyListed: 'Mi IA solo usará lo que listaste. Si tienes condimentos básicos como sal y pimienta, ¡úsalos sin problema!',
+    footer: 'Sin ingredientes extra • Sin complicaciones • Solo lo que hay',
+  },
+  recipe: {
+    kcalPerServing: (kcal: number) => `${kcal} kcal/porción`,
+    straightforward: 'Preparación Directa',
+    fewerServings: 'Menos porciones',
+    moreServings: 'Más porciones',
+    unlisted: 'Atención: esta receta usa ingredientes que no listaste:',
+    checkProfile: 'Revisa según tu perfil:',
+    cookingMode: 'MODO COCINA',
+    generatedBy: 'Hecho con la app ¿Qué Hay Ahí?',
+    tryAnother: 'Probar otra idea',
+    variationLimit: 'Límite de ideas alcanzado',
+    variationNeedsIngredients: 'Agrega ingredientes para otra idea',
+  },
+  actions: {
+    copyMarkdownTitle: 'Copiar en Markdown (MD)',
+    copyMarkdown: 'Copiar (MD)',
+    copied: 'Copiado',
+    share: 'Compartir',
+    shareTitle: (name: string) => `Receta: ${name}`,
+    pdf: 'PDF',
+    pdfTitle: 'Descargar la receta en PDF',
+    card: 'Imagen',
+    cardTitle: 'Compartir una tarjeta de la receta con la foto',
+    json: 'JSON',
+    jsonTitle: 'Descargar en JSON (schema.org) para otras apps de recetas',
+    exportFailed: 'No se pudo exportar la receta. Inténtalo de nuevo.',
+    copyFailed: 'No se pudo copiar. Selecciona el texto y cópialo a mano.',
+    favorite: 'Favorita',
+    favorited: 'En favoritas',
+  },
+  markdown: {
+    totalTime: 'Tiempo total',
+    yields: 'Rinde',
+    nutrition: 'Nutrición por porción (estimación)',
+    footer: 'Hecho con ¿Qué Hay Ahí?',
+  },
+  profile: {
+    preferences: 'Preferencias (Opcional)',
+    restrictions: 'ALERGIAS, RESTRICCIONES Y COCINA',
+    allergens: 'Alergias',
+    dislikes: 'No me gusta',
+    dislikePlaceholder: 'Ej: cilantro',
+    equipment: 'Equipos que tengo',
+    equipmentHint: 'Si no marcas ninguno, considero una cocina completa.',
+    maxTime: 'Tiempo máximo',
+    minutes: (minutes: number) => `${minutes} min`,
+    options: {
+      'Lanche Rápido': 'Tentempié rápido',
+      'Saudável': 'Saludable',
+      Vegano: 'Vegano',
+      Vegetariano: 'Vegetariano',
+      'Low Carb': 'Bajo en carbohidratos',
+      'Sem Glúten': 'Sin gluten',
+      'Sem Lactose': 'Sin lactosa',
+      Leite: 'Leche',
+      Ovo: 'Huevo',
+      'Glúten': 'Gluten',
+      Amendoim: 'Cacahuete',
+      Castanhas: 'Frutos secos',
+      Soja: 'Soja',
+      Peixe: 'Pescado',
+      'Frutos do mar': 'Mariscos',
+      'Fogão': 'Fogón',
+      Forno: 'Horno',
+      'Micro-ondas': 'Microondas',
+      Airfryer: 'Freidora de aire',
+      Liquidificador: 'Licuadora',
+      'Panela de pressão': 'Olla a presión',
+    },
+  },
+  profileWarnings: {
+    allergen: (allergen: string, items: string) => `Contiene ${allergen.toLowerCase()} (alergia): ${items}`,
+    diet: (diet: string, items: string) => `Puede no ser ${diet.toLowerCase()}: ${items}`,
+    dislike: (dislike: string) => `Usa ${dislike}, que marcaste como que no te gusta`,
+    equipment: (equipment: string) => `La preparación parece usar ${equipment.toLowerCase()}, que no está en tu cocina`,
+    time: (totalTime: string, maxMinutes: number) => `Lleva ${totalTime}, más que tu límite de ${maxMinutes} minutos`,
+  },
+  pantry: {
+    placeholder: 'Ej: 6 huevos, 500g de pollo, cebolla, leche vence 20/10...',
+    addMore: 'Añadir más...',
+    ingredient: 'Ingrediente',
+    quantity: 'Cant.',
+    unit: 'Unidad',
+    expiry: 'Caducidad',
+    add: 'AÑADIR',
+    clear: 'VACIAR DESPENSA',
+  },
+  scanner: {
+    title: 'Escanear ingredientes',
+    analyzedPhoto: 'Foto analizada',
+    identifying: 'Identificando ingredientes...',
+    failed: 'No se pudo analizar esta foto.',
+    tryAgain: 'INTENTAR DE NUEVO',
+    nothingFound: 'No se encontraron ingredientes en esta foto.',
+    discardPhoto: 'DESCARTAR FOTO',
+    cameraUnavailable: 'No se pudo acceder a la cámara. Aún puedes elegir fotos de la galería.',
+    instructions: 'Fotografía la nevera, el congelador, la despensa o un ticket de compra. Puedes hacer todas las fotos que quieras.',
+    qrHint: 'Apunta al código QR de una receta para abrirla.',
+    gallery: 'Elegir de la galería',
+    takePhoto: 'Hacer foto',
+    review: 'Revisar ingredientes',
+    reviewTitle: 'Mira lo que encontré',
+    reviewHint: 'Toca un elemento para aceptarlo o rechazarlo. Los de poca certeza vienen desmarcados.',
+    morePhotos: 'Más fotos',
+    analyzing: 'Analizando...',
+    add: (count: number) => `Añadir ${count}`,
+  },
+  variations: {
+    previous: 'Idea anterior',
+    next: 'Idea siguiente',
+    idea: (index: number) => `Idea ${index}`,
+    compare: 'COMPARAR',
+    keep: 'Quedarme con esta',
+  },
+  nutrition: {
+    loading: 'Calculando información nutricional...',
+    title: 'Nutrición por porción',
+    source: 'Estimación basada en la Tabla Brasileña de Composición de Alimentos (TACO).',
+    byModel: (items: string) => ` Estimado por la IA: ${items}.`,
+    missing: (items: string) => ` No incluye: ${items}.`,
+    fields: { calories: 'Calorías', protein: 'Proteínas', carbs: 'Carbohidratos', fat: 'Grasas', fiber: 'Fibra' },
+  },
+  cookbook: {
+    title: 'Recetario',
+    subtitle: 'Todo lo que cocinaste con la app queda guardado aquí.',
+    search: 'Buscar por nombre, ingrediente o etiqueta...',
+    favoritesOnly: 'Mostrar solo favoritas',
+    favorite: 'Favorita',
+    removeTag: 'Quitar etiqueta',
+    tagPlaceholder: 'etiqueta',
+    rename: 'RENOMBRAR',
+    delete: 'BORRAR',
+    confirmDelete: (name: string) => `¿Borrar "${name}" del recetario?`,
+    empty: 'Aún no hay recetas guardadas.',
+    noResults: 'No se encontraron recetas.',
+  },
+  cooking: {
+    stepOf: (step: number, total: number) => `Paso ${step} de ${total}`,
+    speakStep: (step: number, text: string) => `Paso ${step}. ${text}`,
+    timerDone: (label: string) => `El temporizador de ${label} terminó.`,
+    timerFor: (label: string) => `Temporizador de ${label}`,
+    stopReading: 'Dejar de leer en voz alta',
+    startReading: 'Leer pasos en voz alta',
+    voiceOff: 'Desactivar comandos de voz',
+    voiceOn: 'Activar comandos de voz',
+    exit: 'Salir del modo cocina',
+    repeat: 'Repetir',
+    voiceHint: { say: 'Di', words: ['siguiente', 'volver', 'repetir', 'temporizador'], or: 'o' },
+    removeTimer: 'Quitar temporizador',
+    previous: 'Volver',
+    next: 'Siguiente',
+    finish: 'Terminar',
+  },
+  planner: {
+    title: 'Plan Semanal',
+    subtitle: 'Varias comidas con lo que tienes, gastando primero lo que caduca antes.',
+    mealCount: 'Cuántas comidas',
+    perDay: 'Por día',
+    dinnerOnly: 'Solo la cena',
+    lunchAndDinner: 'Almuerzo y cena',
+    prioritize: 'Voy a priorizar:',
+    create: 'ARMAR PLAN',
+    emptyPantry: 'Añade ingredientes en la pantalla inicial para armar un plan.',
+    progress: (meal: number, total: number) => `Planificando comida ${meal} de ${total}...`,
+    stop: 'PARAR',
+    pantryNow: 'En la despensa ahora',
+    pantryEmpty: 'La despensa está vacía.',
+    confirmDiscard: '¿Descartar este plan y armar otro?',
+    newPlan: 'NUEVO PLAN',
+    uses: 'Usa:',
+    cooked: 'HECHA',
+    markCooked: 'LA COCINÉ',
+    uncookTitle: 'Desmarcar y devolver los ingredientes',
+    cookTitle: 'Marcar como hecha y descontar de la despensa',
+    slots: { lunch: 'Almuerzo', dinner: 'Cena' },
+  },
+  import: {
+    button: 'IMPORTAR',
+    recipeFile: 'Abrir receta (JSON o Markdown)',
+    scan: 'Código QR o foto de un ticket',
+    listFile: 'Lista de la compra o ticket en texto',
+    invalidRecipe: 'No pude leer una receta en este archivo. Usa el JSON o el texto copiado de la app.',
+    invalidLink: 'El enlace de la receta está incompleto o dañado.',
+    emptyList: 'No se encontraron ingredientes en este archivo.',
+  },
+  queue: {
+    running: 'Creando los pedidos hechos sin conexión...',
+    waiting: 'En cola: las recetas se crearán cuando vuelva la conexión.',
+    remove: 'Quitar de la cola',
+    ready: 'Recetas listas y guardadas en el recetario:',
+  },
+};
@@ -0,0 +1,47 @@
+import { IngredientFormat } from '../utils/units';
+import { ProfileWarning } from '../utils/profile';
+import { Language, LOCALES, UnitSystem } from './languages';
+import { Messages, ptBR } from './pt-BR';
+import { en } from './en';
+import { es } from './es';
+
+export * from './languages';
+export type { Messages } from './pt-BR';
+
+export const MESSAGES: Record<Language, Messages> = { 'pt-BR': ptBR, en, es };
+
+export interface I18n {
+  language: Language;
+  unitSystem: UnitSystem;
+  // Locale para datas e números (Intl / toLocale*)
+  locale: string;
+  t: Messages;
+  // Como exibir as quantidades dos ingredientes
+  format: IngredientFormat;
+}
+
+export const createI18n = (language: Language, unitSystem: UnitSystem): I18n => ({
+  language,
+  unitSystem,
+  locale: LOCALES[language],
+  t: MESSAGES[language],
+  format: { language, unitSystem },
+});
+
+// Opções fixas do perfil são salvas em português; sem tradução, mostra o próprio valor
+export const optionLabel = (t: Messages, value: string) => t.profile.options[value] ?? value;
+
+export const describeProfileWarning = (t: Messages, warning: ProfileWarning) => {
+  switch (warning.type) {
+    case 'allergen':
+      return t.profileWarnings.allergen(optionLabel(t, warning.subject), warning.items.join(', '));
+    case 'diet':
+      return t.profileWarnings.diet(optionLabel(t, warning.subject), warning.items.join(', '));
+    case 'dislike':
+      return t.profileWarnings.dislike(warning.subject);
+    case 'equipment':
+      return t.profileWarnings.equipment(optionLabel(t, warning.subject));
+    case 'time':
+      return t.profileWarnings.time(warning.totalTime, warning.maxMinutes);
+  }
+};
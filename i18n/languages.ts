@@ -0,0 +1,30 @@
+export type Language = 'pt-BR' | 'en' | 'es';
+
+// Como as quantidades aparecem na receita: gramas/mililitros ou xícaras, colheres e onças
+export type UnitSystem = 'metric' | 'us';
+
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'pt-BR', label: 'Português' },
+  { code: 'en', label: 'English' },
+  { code: 'es', label: 'Español' },
+];
+
+// Locale usado em datas, números, voz e no atributo lang da página
+export const LOCALES: Record<Language, string> = { 'pt-BR': 'pt-BR', en: 'en-US', es: 'es-ES' };
+
+export const DEFAULT_UNIT_SYSTEM: Record<Language, UnitSystem> = { 'pt-BR': 'metric', en: 'us', es: 'metric' };
+
+// Nome do idioma dentro do prompt (que continua em português)
+export const PROMPT_LANGUAGE_NAMES: Record<Language, string> = { 'pt-BR': 'português do Brasil', en: 'inglês', es: 'espanhol' };
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.some(language => language.code === value);
+
+// Primeiro idioma do navegador que o app suporta; português quando nenhum bate
+export const detectLanguage = (preferred: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages): Language => {
+  for (const tag of preferred) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (base === 'pt') return 'pt-BR';
+    if (base === 'en' || base === 'es') return base;
+  }
+  return 'pt-BR';
+};
@@ -0,0 +1,236 @@
+// Catálogo de referência: en e es precisam ter exatamente as mesmas chaves (ver Messages)
+export const ptBR = {
+  common: {
+    appTitle: 'O Que Tem Aí? - Seu Chef Sem Frescura',
+    recipeTitle: (name: string) => `Receita - ${name}`,
+    ingredients: 'Ingredientes',
+    method: 'Modo de Preparo',
+    chefTip: 'Dica do Chef',
+    cookingIdeas: 'Cozinhando ideias...',
+    cancel: 'Cancelar',
+    close: 'Fechar',
+    retry: 'Tentar novamente',
+    remove: (name: string) => `Remover ${name}`,
+    servings: (count: number) => `${count} ${count === 1 ? 'porção' : 'porções'}`,
+  },
+  header: {
+    brand: 'O QUE TEM AÍ?',
+    cookbook: 'LIVRO DE RECEITAS',
+    planner: 'PLANO DA SEMANA',
+    backToPlan: 'VOLTAR AO PLANO',
+    newSearch: 'NOVA BUSCA',
+    back: 'VOLTAR',
+    offline: 'OFFLINE',
+    offlineHint: 'Sem conexão: o livro de receitas continua disponível e novos pedidos entram na fila',
+    queued: (count: number) => `· ${count} NA FILA`,
+  },
+  settings: {
+    title: 'Idioma, medidas e leitura',
+    language: 'Idioma',
+    units: 'Medidas',
+    metric: 'Métrico (g, ml)',
+    us: 'Americano (xícaras, oz)',
+    display: 'Leitura',
+    textSize: 'Tamanho do texto',
+    textSizes: { normal: 'Normal', large: 'Grande', larger: 'Muito grande' },
+    highContrast: 'Alto contraste',
+    shortcuts: 'Atalhos de teclado',
+  },
+  shortcuts: {
+    generate: 'Criar receita',
+    variation: 'Outra ideia',
+    copy: 'Copiar receita',
+  },
+  announcements: {
+    recipeReady: (name: string) => `Receita pronta: ${name}.`,
+    copied: 'Receita copiada para a área de transferência.',
+  },
+  errors: {
+    invalidRecipe: 'A IA respondeu com uma receita incompleta ou em formato inesperado. Tente novamente.',
+    rateLimited: 'Você fez muitos pedidos em pouco tempo. Aguarde um minuto e tente novamente.',
+    generic: 'Não foi possível gerar a receita agora. Verifique sua conexão e tente novamente.',
+    offlineVariation: 'Sem conexão. Tente outra ideia quando a internet voltar.',
+  },
+  home: {
+    title: 'O que vamos comer hoje?',
+    subtitle: 'Diga o que você tem na geladeira e eu resolvo a sua refeição.',
+    ingredientsLabel: 'Seus Ingredientes',
+    scan: 'ESCANEAR GELADEIRA',
+    create: 'Criar Receita',
+    createOffline: 'Criar quando a conexão voltar',
+    onlyListed: 'Minha IA só usará o que você listou. Se você tiver temperos básicos como sal e pimenta, pode usar à vontade!',
+    footer: 'Sem ingredientes extras • Sem complicação • Só o que tem aí',
+  },
+  recipe: {
+    kcalPerServing: (kcal: number) => `${kcal} kcal/porção`,
+    straightforward: 'Preparo Direto',
+    fewerServings: 'Menos porções',
+    moreServings: 'Mais porções',
+    unlisted: 'Atenção: esta receita usa ingredientes que você não listou:',
+    checkProfile: 'Confira com o seu perfil:',
+    cookingMode: 'MODO COZINHAR',
+    generatedBy: 'Gerado pelo App: O Que Tem Aí?',
+    tryAnother: 'Tentar outra ideia',
+    variationLimit: 'Limite de variações atingido',
+    variationNeedsIngredients: 'Adicione ingredientes para outra ideia',
+  },
+  actions: {
+    copyMarkdownTitle: 'Copiar em Markdown (MD)',
+    copyMarkdown: 'Copiar (MD)',
+    copied: 'Copiado',
+    share: 'Compartilhar',
+    shareTitle: (name: string) => `Receita: ${name}`,
+    pdf: 'PDF',
+    pdfTitle: 'Baixar a receita em PDF',
+    card: 'Imagem',
+    cardTitle: 'Compartilhar um card da receita com a foto',
+    json: 'JSON',
+    jsonTitle: 'Baixar em JSON (schema.org) para outros apps de receitas',
+    exportFailed: 'Não foi possível exportar a receita. Tente novamente.',
+    copyFailed: 'Não foi possível copiar. Selecione o texto e copie manualmente.',
+    favorite: 'Favoritar',
+    favorited: 'Favorita',
+  },
+  markdown: {
+    totalTime: 'Tempo total',
+    yields: 'Rende',
+    nutrition: 'Nutrição por porção (estimativa)',
+    footer: 'Gerado por O Que Tem Aí?',
+  },
+  profile: {
+    preferences: 'Preferências (Opcional)',
+    restrictions: 'ALERGIAS, RESTRIÇÕES E COZINHA',
+    allergens: 'Alergias',
+    dislikes: 'Não gosto de',
+    dislikePlaceholder: 'Ex: coentro',
+    equipment: 'Equipamentos que tenho',
+    equipmentHint: 'Sem nenhum marcado, considero uma cozinha completa.',
+    maxTime: 'Tempo máximo',
+    minutes: (minutes: number) => `${minutes} min`,
+    // Rótulo de cada opção fixa do perfil (os valores salvos continuam em português)
+    options: {} as Record<string, string>,
+  },
+  profileWarnings: {
+    allergen: (allergen: string, items: string) => `Contém ${allergen.toLowerCase()} (alergia): ${items}`,
+    diet: (diet: string, items: string) => `Pode não ser ${diet.toLowerCase()}: ${items}`,
+    dislike: (dislike: string) => `Usa ${dislike}, que você marcou como não gosta`,
+    equipment: (equipment: string) => `O preparo parece usar ${equipment.toLowerCase()}, que não está na sua cozinha`,
+    time: (totalTime: string, maxMinutes: number) => `Leva ${totalTime}, acima do seu limite de ${maxMinutes} minutos`,
+  },
+  pantry: {
+    placeholder: 'Ex: 6 ovos, 500g de frango, cebola, leite vence 20/10...',
+    addMore: 'Adicionar mais...',
+    ingredient: 'Ingrediente',
+    quantity: 'Qtd.',
+    unit: 'Unidade',
+    expiry: 'Validade',
+    add: 'ADICIONAR',
+    clear: 'LIMPAR DESPENSA',
+  },
+  scanner: {
+    title: 'Escanear ingredientes',
+    analyzedPhoto: 'Foto analisada',
+    identifying: 'Identificando ingredientes...',
+    failed: 'Falha ao analisar esta foto.',
+    tryAgain: 'TENTAR DE NOVO',
+    nothingFound: 'Nenhum ingrediente encontrado nesta foto.',
+    discardPhoto: 'DESCARTAR FOTO',
+    cameraUnavailable: 'Não foi possível acessar a câmera. Você ainda pode escolher fotos da galeria.',
+    instructions: 'Fotografe a geladeira, o freezer, o armário ou uma nota de compras. Pode tirar quantas fotos quiser.',
+    qrHint: 'Aponte para o QR code de uma receita para abri-la.',
+    gallery: 'Escolher da galeria',
+    takePhoto: 'Tirar foto',
+    review: 'Revisar ingredientes',
+    reviewTitle: 'Confira o que encontrei',
+    reviewHint: 'Toque em um item para aceitar ou recusar. Itens com pouca certeza já vêm desmarcados.',
+    morePhotos: 'Mais fotos',
+    analyzing: 'Analisando...',
+    add: (count: number) => `Adicionar ${count}`,
+  },
+  variations: {
+    previous: 'Ideia anterior',
+    next: 'Próxima ideia',
+    idea: (index: number) => `Ideia ${index}`,
+    compare: 'COMPARAR',
+    keep: 'Ficar com esta',
+  },
+  nutrition: {
+    loading: 'Calculando informação nutricional...',
+    title: 'Nutrição por porção',
+    source: 'Estimativa com base na Tabela Brasileira de Composição de Alimentos (TACO).',
+    byModel: (items: string) => ` Estimado pela IA: ${items}.`,
+    missing: (items: string) => ` Não inclui: ${items}.`,
+    fields: { calories: 'Calorias', protein: 'Proteínas', carbs: 'Carboidratos', fat: 'Gorduras', fiber: 'Fibras' },
+  },
+  cookbook: {
+    title: 'Livro de Receitas',
+    subtitle: 'Tudo o que você já cozinhou com o app fica salvo aqui.',
+    search: 'Buscar por nome, ingrediente ou etiqueta...',
+    favoritesOnly: 'Mostrar só favoritas',
+    favorite: 'Favoritar',
+    removeTag: 'Remover etiqueta',
+    tagPlaceholder: 'etiqueta',
+    rename: 'RENOMEAR',
+    delete: 'APAGAR',
+    confirmDelete: (name: string) => `Apagar "${name}" do livro de receitas?`,
+    empty: 'Nenhuma receita salva ainda.',
+    noResults: 'Nenhuma receita encontrada.',
+  },
+  cooking: {
+    stepOf: (step: number, total: number) => `Passo ${step} de ${total}`,
+    speakStep: (step: number, text: string) => `Passo ${step}. ${text}`,
+    timerDone: (label: string) => `O timer de ${label} terminou.`,
+    timerFor: (label: string) => `Timer de ${label}`,
+    stopReading: 'Parar leitura em voz alta',
+    startReading: 'Ler passos em voz alta',
+    voiceOff: 'Desligar comandos de voz',
+    voiceOn: 'Ligar comandos de voz',
+    exit: 'Sair do modo cozinhar',
+    repeat: 'Repetir',
+    voiceHint: { say: 'Diga', words: ['próximo', 'voltar', 'repetir', 'timer'], or: 'ou' },
+    removeTimer: 'Remover timer',
+    previous: 'Voltar',
+    next: 'Próximo',
+    finish: 'Concluir',
+  },
+  planner: {
+    title: 'Plano da Semana',
+    subtitle: 'Várias refeições com o que você tem, gastando primeiro o que vence antes.',
+    mealCount: 'Quantas refeições',
+    perDay: 'Por dia',
+    dinnerOnly: 'Só o jantar',
+    lunchAndDinner: 'Almoço e jantar',
+    prioritize: 'Vou priorizar:',
+    create: 'MONTAR PLANO',
+    emptyPantry: 'Adicione ingredientes na tela inicial para montar um plano.',
+    progress: (meal: number, total: number) => `Planejando refeição ${meal} de ${total}...`,
+    stop: 'PARAR',
+    pantryNow: 'Na despensa agora',
+    pantryEmpty: 'A despensa está vazia.',
+    confirmDiscard: 'Descartar este plano e montar outro?',
+    newPlan: 'NOVO PLANO',
+    uses: 'Usa:',
+    cooked: 'FEITA',
+    markCooked: 'COZINHEI',
+    uncookTitle: 'Desmarcar e devolver os ingredientes',
+    cookTitle: 'Marcar como feita e dar baixa na despensa',
+    slots: { lunch: 'Almoço', dinner: 'Jantar' },
+  },
+  import: {
+    button: 'IMPORTAR',
+    recipeFile: 'Abrir receita (JSON ou Markdown)',
+    scan: 'QR code ou foto de nota fiscal',
+    listFile: 'Lista de compras ou nota em texto',
+    invalidRecipe: 'Não consegui ler uma receita neste arquivo. Use o JSON ou o texto copiado do app.',
+    invalidLink: 'O link da receita está incompleto ou corrompido.',
+    emptyList: 'Nenhum ingrediente encontrado neste arquivo.',
+  },
+  queue: {
+    running: 'Gerando os pedidos feitos sem internet...',
+    waiting: 'Na fila: as receitas serão criadas quando a conexão voltar.',
+    remove: 'Tirar da fila',
+    ready: 'Receitas prontas e salvas no livro:',
+  },
+};
+
+export type Messages = typeof ptBR;
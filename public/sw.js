@@ -0,0 +1,91 @@
+// Service worker do O Que Tem Aí?: guarda o app shell para abrir sem internet.
+// Receitas salvas ficam no IndexedDB do próprio app; aqui só entram HTML, JS, CSS, fontes e ícones.
+// Troque a versão quando mudar a estratégia de cache: o activate apaga os caches antigos.
+const CACHE = 'oqta-shell-v2';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-maskable.svg'];
+
+const isCacheable = response => response && (response.ok || response.type === 'opaque');
+
+const TAG = /<(script|link)\b[^>]*>/gi;
+const attribute = (tag, name) => tag.match(new RegExp(`\\s${name}="([^"]*)"`, 'i'))?.[1];
+
+// Scripts e folhas de estilo do index.html (bundles com hash do Vite, Tailwind, fontes)
+const shellAssets = html =>
+  [...html.matchAll(TAG)]
+    .map(([tag, name]) => {
+      if (name.toLowerCase() === 'script') return attribute(tag, 'src');
+      return /^(stylesheet|modulepreload)$/i.test(attribute(tag, 'rel') ?? '') ? attribute(tag, 'href') : undefined;
+    })
+    .filter(Boolean)
+    .map(src => new URL(src, self.location.origin));
+
+// Na instalação o HTML já carregou os bundles sem passar por aqui: sem guardá-los agora,
+// a primeira abertura offline teria só o HTML. Arquivos do próprio app são obrigatórios;
+// os de CDN entram quando der (sem CORS vêm opacos) e senão ficam para o stale-while-revalidate.
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  const html = await (await cache.match('/')).text();
+  await Promise.all(shellAssets(html).map(async url => {
+    if (url.origin === self.location.origin) {
+      await cache.add(url);
+      return;
+    }
+    try {
+      const response = await fetch(url, { mode: 'no-cors' });
+      if (isCacheable(response)) await cache.put(url, response);
+    } catch {
+      // CDN fora do ar na instalação: tenta de novo no próximo uso
+    }
+  }));
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Navegação: rede primeiro (para pegar deploys novos), shell em cache quando estiver offline
+const handleNavigation = async request => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/')) ?? Response.error();
+  }
+};
+
+// Demais arquivos (bundles com hash, Tailwind, fontes): responde do cache e atualiza em segundo plano
+const handleAsset = async (event, request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request).then(response => {
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!url.protocol.startsWith('http')) return;
+  // A API nunca vai para o cache: receitas offline vêm do livro de receitas e da fila
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  event.respondWith(request.mode === 'navigate' ? handleNavigation(request) : handleAsset(event, request));
+});
@@ -0,0 +1,205 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { createProxyProvider, ProxyError } from '../services/proxyProvider';
+import { RecipeRequest } from '../services/recipeProvider';
+import { RecipeValidationError } from '../utils/recipeValidation';
+import { createApi } from './api';
+import { createRateLimiter } from './rateLimit';
+
+const API_KEY = 'test-key-nao-vaza';
+
+const RECIPE = {
+  name: 'Omelete de Tomate',
+  totalTime: '15 minutos',
+  servings: 2,
+  ingredients: [{ quantity: 3, unit: 'un', item: 'Ovo' }, { quantity: 1, unit: 'un', item: 'Tomate' }],
+  instructions: ['Bata os ovos.', 'Junte o tomate e cozinhe.'],
+};
+
+const REQUEST: RecipeRequest = {
+  ingredients: [{ id: '1', name: 'Ovo' }, { id: '2', name: 'Tomate' }],
+  profile: { diets: [], allergens: [], dislikes: [], equipment: [] },
+  previousRecipes: [],
+};
+
+type Upstream = (path: string, body: unknown, res: ServerResponse) => void;
+
+const geminiText = (text: string) => ({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] });
+
+// Imita a API REST do Gemini: SSE em :streamGenerateContent e JSON em :generateContent
+const defaultUpstream: Upstream = (path, body, res) => {
+  if (path.includes(':streamGenerateContent')) {
+    const text = JSON.stringify(RECIPE);
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    [text.slice(0, 40), text.slice(40, 120), text.slice(120)].forEach(piece => {
+      res.write(`data: ${JSON.stringify(geminiText(piece))}\n\n`);
+    });
+    res.end();
+    return;
+  }
+  const hasImage = JSON.stringify(body).includes('inlineData');
+  const text = hasImage
+    ? JSON.stringify([{ name: 'Ovo', confidence: 0.9, box_2d: [100, 200, 300, 400] }])
+    : JSON.stringify([{ item: 'Quiabo', calories: 60, protein: 4, carbs: 14, fat: 0.4, fiber: 6 }]);
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(geminiText(text)));
+};
+
+const listen = (server: Server) =>
+  new Promise<string>(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  }));
+
+const close = (server: Server) => new Promise(resolve => server.close(resolve));
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>(resolve => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => resolve(data));
+  });
+
+describe('API do servidor', () => {
+  let upstream: Upstream;
+  let upstreamHeaders: IncomingMessage['headers'][];
+  let fakeGemini: Server;
+  let app: Server;
+  let baseUrl: string;
+
+  const start = async ({ limit = 100, maxBodyBytes = 10_000 } = {}) => {
+    const upstreamUrl = await listen(fakeGemini);
+    const api = createApi({
+      provider: createGeminiProvider({ apiKey: API_KEY, textModel: 'texto', imageModel: 'imagem', baseUrl: upstreamUrl }),
+      rateLimiter: createRateLimiter({ limit, windowMs: 60_000 }),
+      maxBodyBytes,
+    });
+    app = createServer((req, res) => api(req, res, () => {
+      res.writeHead(200);
+      res.end('front');
+    }));
+    baseUrl = await listen(app);
+  };
+
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  beforeEach(() => {
+    upstream = defaultUpstream;
+    upstreamHeaders = [];
+    fakeGemini = createServer(async (req, res) => {
+      upstreamHeaders.push(req.headers);
+      upstream(req.url ?? '', JSON.parse(await readBody(req) || '{}'), res);
+    });
+  });
+
+  afterEach(async () => {
+    await close(app);
+    await close(fakeGemini);
+  });
+
+  it('repassa a receita em streaming e guarda a chave só no servidor', async () => {
+    await start();
+    const provider = createProxyProvider({ baseUrl: `${baseUrl}/api` });
+    const partials: unknown[] = [];
+
+    const recipe = await provider.generateRecipe(REQUEST, { onProgress: partial => partials.push(partial) });
+
+    expect(recipe).toMatchObject({ name: 'Omelete de Tomate', servings: 2 });
+    expect(partials.length).toBeGreaterThan(1);
+    expect(upstreamHeaders[0]['x-goog-api-key']).toBe(API_KEY);
+
+    const raw = await (await post('/api/recipe', REQUEST)).text();
+    expect(raw).not.toContain(API_KEY);
+  });
+
+  it('devolve as detecções com caixas normalizadas', async () => {
+    await start();
+    const provider = createProxyProvider({ baseUrl: `${baseUrl}/api` });
+
+    const detections = await provider.detectIngredients({ data: 'aGVsbG8=', mimeType: 'image/jpeg' });
+
+    expect(detections).toEqual([{ name: 'Ovo', confidence: 0.9, box: { x: 0.2, y: 0.1, width: 0.2, height: 0.2 } }]);
+  });
+
+  it('estima nutrientes dos itens fora da tabela', async () => {
+    await start();
+    const provider = createProxyProvider({ baseUrl: `${baseUrl}/api` });
+
+    const items = await provider.estimateNutrition([{ item: 'Quiabo', quantity: 100, unit: 'g' }]);
+
+    expect(items).toEqual([{ item: 'Quiabo', calories: 60, protein: 4, carbs: 14, fat: 0.4, fiber: 6 }]);
+  });
+
+  it('transforma uma receita malformada do modelo em RecipeValidationError no navegador', async () => {
+    upstream = (_path, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.end(`data: ${JSON.stringify(geminiText('{"name": "Sem passos"}'))}\n\n`);
+    };
+    await start();
+    const provider = createProxyProvider({ baseUrl: `${baseUrl}/api` });
+
+    await expect(provider.generateRecipe(REQUEST)).rejects.toBeInstanceOf(RecipeValidationError);
+  });
+
+  it('esconde os detalhes quando o upstream falha', async () => {
+    upstream = (_path, _body, res) => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 400, status: 'INVALID_ARGUMENT', message: 'detalhe interno' } }));
+    };
+    await start();
+
+    const response = await post('/api/scan', { image: { data: 'aGVsbG8=', mimeType: 'image/jpeg' } });
+
+    expect(response.status).toBe(502);
+    const body = await response.json();
+    expect(body.error.code).toBe('upstream');
+    expect(JSON.stringify(body)).not.toContain('detalhe interno');
+  });
+
+  it('limita os pedidos por cliente', async () => {
+    await start({ limit: 2 });
+    const scan = () => post('/api/scan', { image: { data: 'aGVsbG8=', mimeType: 'image/jpeg' } });
+
+    expect((await scan()).status).toBe(200);
+    expect((await scan()).status).toBe(200);
+    const blocked = await scan();
+
+    expect(blocked.status).toBe(429);
+    expect(Number(blocked.headers.get('retry-after'))).toBeGreaterThan(0);
+    await expect(
+      createProxyProvider({ baseUrl: `${baseUrl}/api` }).detectIngredients({ data: 'aGVsbG8=', mimeType: 'image/jpeg' })
+    ).rejects.toMatchObject({ name: 'ProxyError', code: 'rate_limited' } satisfies Partial<ProxyError>);
+  });
+
+  it('recusa corpos acima do limite sem consultar o modelo', async () => {
+    await start({ maxBodyBytes: 1_000 });
+
+    const response = await post('/api/scan', { image: { data: 'a'.repeat(5_000), mimeType: 'image/jpeg' } });
+
+    expect(response.status).toBe(413);
+    expect(upstreamHeaders).toHaveLength(0);
+  });
+
+  it('valida o corpo antes de chamar o modelo', async () => {
+    await start();
+
+    const invalidJson = await fetch(`${baseUrl}/api/recipe`, { method: 'POST', body: '{oops' });
+    const noIngredients = await post('/api/recipe', { ...REQUEST, ingredients: [] });
+    const notAnImage = await post('/api/scan', { image: { data: 'abc', mimeType: 'text/plain' } });
+
+    expect(invalidJson.status).toBe(400);
+    expect(noIngredients.status).toBe(400);
+    expect(notAnImage.status).toBe(400);
+    expect(upstreamHeaders).toHaveLength(0);
+  });
+
+  it('deixa passar o que não é /api e responde 404/405 nas rotas erradas', async () => {
+    await start();
+
+    expect(await (await fetch(`${baseUrl}/`)).text()).toBe('front');
+    expect((await post('/api/desconhecida', {})).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/recipe`)).status).toBe(405);
+  });
+});
@@ -0,0 +1,166 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ImageInput, RecipeProvider, RecipeRequest, isAbortError } from '../services/recipeProvider';
+import { isLanguage, Language } from '../i18n/languages';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { RecipeStreamEvent } from '../services/proxyProvider';
+import { Recipe, RecipeIngredient } from '../types';
+import { RecipeValidationError } from '../utils/recipeValidation';
+import { ServerConfig } from './config';
+import { HttpError, readJsonBody, sendError, sendJson } from './http';
+import { createRateLimiter, RateLimiter } from './rateLimit';
+
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+const MAX_LIST_LENGTH = 100;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isList = (value: unknown): value is unknown[] => Array.isArray(value) && value.length <= MAX_LIST_LENGTH;
+
+const badRequest = (message: string) => new HttpError(400, 'bad_request', message);
+
+// Validação superficial: o suficiente para não repassar lixo ao modelo
+const parseRecipeRequest = (body: unknown): RecipeRequest => {
+  if (!isObject(body)) throw badRequest('Pedido de receita inválido');
+  const { ingredients, profile, previousRecipes, rejectedIngredients, language } = body;
+  if (!isList(ingredients) || !ingredients.length || !ingredients.every(item => isObject(item) && typeof item.name === 'string')) {
+    throw badRequest('Informe de 1 a 100 ingredientes');
+  }
+  if (!isObject(profile)) throw badRequest('Perfil alimentar ausente');
+  if (!isList(previousRecipes)) throw badRequest('Lista de receitas anteriores inválida');
+  if (rejectedIngredients !== undefined && !isList(rejectedIngredients)) throw badRequest('Lista de ingredientes recusados inválida');
+  if (language !== undefined && !isLanguage(language)) throw badRequest('Idioma não suportado');
+  return body as unknown as RecipeRequest;
+};
+
+const parseImage = (body: unknown): ImageInput => {
+  const image = isObject(body) ? body.image : undefined;
+  if (!isObject(image) || typeof image.data !== 'string' || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/')) {
+    throw badRequest('Envie uma imagem em base64 com o mimeType');
+  }
+  return { data: image.data, mimeType: image.mimeType };
+};
+
+const parseLanguage = (body: unknown): Language | undefined => {
+  const language = isObject(body) ? body.language : undefined;
+  if (language === undefined) return undefined;
+  if (!isLanguage(language)) throw badRequest('Idioma não suportado');
+  return language;
+};
+
+const parseRecipe = (body: unknown): Recipe => {
+  const recipe = isObject(body) ? body.recipe : undefined;
+  if (!isObject(recipe) || typeof recipe.name !== 'string') throw badRequest('Receita inválida');
+  return recipe as unknown as Recipe;
+};
+
+const parseIngredients = (body: unknown): RecipeIngredient[] => {
+  const ingredients = isObject(body) ? body.ingredients : undefined;
+  if (!isList(ingredients) || !ingredients.every(item => isObject(item) && typeof item.item === 'string')) {
+    throw badRequest('Informe de 1 a 100 ingredientes');
+  }
+  return ingredients as RecipeIngredient[];
+};
+
+// Erros do modelo nunca vão crus para o navegador: só o código e uma mensagem genérica
+const upstreamError = (err: unknown) => {
+  if (err instanceof RecipeValidationError) {
+    return { code: 'invalid_recipe' as const, message: 'O modelo devolveu uma receita inválida', issues: err.issues };
+  }
+  console.error('Falha ao consultar o modelo:', err);
+  return { code: 'upstream' as const, message: 'Falha ao consultar o modelo' };
+};
+
+const clientId = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress ?? 'desconhecido';
+};
+
+type Route = (body: unknown, res: ServerResponse, signal: AbortSignal) => Promise<void>;
+
+const createRoutes = (provider: RecipeProvider): Record<string, Route> => ({
+  '/api/recipe': async (body, res, signal) => {
+    const request = parseRecipeRequest(body);
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+    const write = (event: RecipeStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    try {
+      const recipe = await provider.generateRecipe(request, { signal, onProgress: partial => write({ type: 'progress', recipe: partial }) });
+      write({ type: 'done', recipe });
+    } catch (err) {
+      if (!signal.aborted && !isAbortError(err)) write({ type: 'error', error: upstreamError(err) });
+    }
+    res.end();
+  },
+  '/api/scan': async (body, res, signal) => {
+    const ingredients = await provider.detectIngredients(parseImage(body), { signal, language: parseLanguage(body) });
+    sendJson(res, 200, { ingredients });
+  },
+  '/api/image': async (body, res, signal) => {
+    const imageUrl = await provider.generateImage(parseRecipe(body), { signal });
+    sendJson(res, 200, { imageUrl });
+  },
+  '/api/nutrition': async (body, res, signal) => {
+    const items = await provider.estimateNutrition(parseIngredients(body), { signal });
+    sendJson(res, 200, { items });
+  },
+});
+
+export interface ApiOptions {
+  provider: RecipeProvider;
+  rateLimiter: RateLimiter;
+  maxBodyBytes: number;
+  trustProxy?: boolean;
+}
+
+// Middleware no formato connect: serve no Vite (dev/preview) e no servidor standalone
+export const createApi = ({ provider, rateLimiter, maxBodyBytes, trustProxy = false }: ApiOptions): Middleware => {
+  const routes = createRoutes(provider);
+
+  return async (req, res, next) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (!path.startsWith('/api/')) return next();
+
+    // O modelo para de gerar se o navegador desistir (cancelar, fechar a aba)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      const route = routes[path];
+      if (!route) throw new HttpError(404, 'not_found', 'Rota não encontrada');
+      if (req.method !== 'POST') throw new HttpError(405, 'method_not_allowed', 'Use POST', { Allow: 'POST' });
+
+      const { allowed, retryAfterSeconds } = rateLimiter.take(clientId(req, trustProxy));
+      if (!allowed) {
+        throw new HttpError(429, 'rate_limited', 'Muitos pedidos em pouco tempo', { 'Retry-After': String(retryAfterSeconds) });
+      }
+
+      await route(await readJsonBody(req, maxBodyBytes), res, controller.signal);
+    } catch (err) {
+      if (res.headersSent || controller.signal.aborted) return;
+      if (err instanceof HttpError) return sendError(res, err);
+      const { code, message } = upstreamError(err);
+      sendJson(res, 502, { error: { code, message } });
+    }
+  };
+};
+
+export const createApiFromConfig = (config: ServerConfig): Middleware => {
+  if (!config.gemini.apiKey) {
+    console.warn('GEMINI_API_KEY não configurada: as rotas /api vão responder 503.');
+    return (req, res, next) => {
+      if (!req.url?.startsWith('/api/')) return next();
+      sendError(res, new HttpError(503, 'not_configured', 'O servidor está sem a chave do Gemini'));
+    };
+  }
+
+  return createApi({
+    provider: createGeminiProvider(config.gemini),
+    rateLimiter: createRateLimiter({ limit: config.rateLimit, windowMs: config.rateLimitWindowMs }),
+    maxBodyBytes: config.maxBodyBytes,
+    trustProxy: config.trustProxy,
+  });
+};
@@ -0,0 +1,35 @@
+import { GeminiConfig } from '../services/geminiProvider';
+
+export interface ServerConfig {
+  gemini: GeminiConfig;
+  port: number;
+  // Pedidos aceitos por cliente dentro de cada janela
+  rateLimit: number;
+  rateLimitWindowMs: number;
+  maxBodyBytes: number;
+  // Atrás de um proxy reverso, identifica o cliente pelo X-Forwarded-For
+  trustProxy: boolean;
+  // Build do front servido pelo modo standalone
+  staticDir: string;
+}
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Lido em tempo de execução: nada daqui entra no bundle do navegador
+export const readServerConfig = (env: Record<string, string | undefined> = process.env): ServerConfig => ({
+  gemini: {
+    apiKey: env.GEMINI_API_KEY ?? '',
+    textModel: env.GEMINI_TEXT_MODEL || 'gemini-3-flash-preview',
+    imageModel: env.GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image',
+    baseUrl: env.GEMINI_BASE_URL || undefined,
+  },
+  port: toNumber(env.PORT, 3000),
+  rateLimit: toNumber(env.RATE_LIMIT_PER_MINUTE, 20),
+  rateLimitWindowMs: 60_000,
+  maxBodyBytes: toNumber(env.MAX_BODY_BYTES, 2_000_000),
+  trustProxy: env.TRUST_PROXY === 'true',
+  staticDir: env.STATIC_DIR || 'dist',
+});
@@ -0,0 +1,53 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ApiErrorBody, ApiErrorCode } from '../services/proxyProvider';
+
+export class HttpError extends Error {
+  constructor(public status: number, public code: ApiErrorCode, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+export const sendError = (res: ServerResponse, error: HttpError) => {
+  const body: ApiErrorBody = { code: error.code, message: error.message };
+  sendJson(res, error.status, { error: body }, error.headers);
+};
+
+// Lê o corpo JSON recusando qualquer coisa acima de maxBytes, sem guardar o excesso em memória
+export const readJsonBody = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<unknown>((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, 'payload_too_large', `O pedido passa do limite de ${maxBytes} bytes`);
+    if (Number(req.headers['content-length']) > maxBytes) {
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let rejected = false;
+    req.on('data', (chunk: Buffer) => {
+      if (rejected) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        rejected = true;
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (rejected) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new HttpError(400, 'bad_request', 'O corpo do pedido não é um JSON válido'));
+      }
+    });
+    req.on('error', reject);
+  });
@@ -0,0 +1,25 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createApiFromConfig } from './api';
+import { readServerConfig } from './config';
+import { serveStatic } from './static';
+
+// Modo standalone (produção): a API e o build do front no mesmo processo
+const config = readServerConfig();
+const api = createApiFromConfig(config);
+const assets = serveStatic(config.staticDir);
+
+// Uma falha ao servir um arquivo responde 500 em vez de derrubar o processo
+const serveAssets = (req: IncomingMessage, res: ServerResponse) =>
+  assets(req, res).catch(err => {
+    console.error('Erro ao servir arquivo estático:', err);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end('Erro interno.');
+  });
+
+createServer((req, res) => api(req, res, () => serveAssets(req, res))).listen(config.port, () => {
+  console.log(`O Que Tem Aí? rodando em http://localhost:${config.port}`);
+});
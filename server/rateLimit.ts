@@ -0,0 +1,42 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+// Janela fixa por cliente, em memória: suficiente para uma única instância do servidor
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }: RateLimiterOptions) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  const sweep = (time: number) => {
+    for (const [client, window] of windows) {
+      if (time - window.start >= windowMs) windows.delete(client);
+    }
+  };
+
+  const take = (client: string): RateLimitResult => {
+    const time = now();
+    if (windows.size > 1000) sweep(time);
+
+    let window = windows.get(client);
+    if (!window || time - window.start >= windowMs) {
+      window = { start: time, count: 0 };
+      windows.set(client, window);
+    }
+    window.count++;
+
+    return {
+      allowed: window.count <= limit,
+      retryAfterSeconds: Math.ceil((window.start + windowMs - time) / 1000),
+    };
+  };
+
+  return { take };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
@@ -0,0 +1,41 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { serveStatic } from './static';
+
+let root: string;
+let server: Server;
+let baseUrl: string;
+
+beforeEach(async () => {
+  root = await mkdtemp(path.join(tmpdir(), 'oqta-static-'));
+  await writeFile(path.join(root, 'index.html'), '<!doctype html>shell');
+  await writeFile(path.join(root, 'app.js'), 'console.log(1)');
+  const assets = serveStatic(root);
+  server = createServer((req, res) => { assets(req, res); });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('arquivos estáticos', () => {
+  it('serve os arquivos do build e cai no index.html nas outras rotas', async () => {
+    const script = await fetch(`${baseUrl}/app.js`);
+    expect(script.headers.get('content-type')).toContain('text/javascript');
+    expect(await script.text()).toBe('console.log(1)');
+    expect(await (await fetch(`${baseUrl}/livro`)).text()).toBe('<!doctype html>shell');
+  });
+
+  it('responde 400 a um caminho com escape malformado e continua no ar', async () => {
+    const response = await fetch(`${baseUrl}/%E0%A4%A`);
+    expect(response.status).toBe(400);
+    expect((await fetch(`${baseUrl}/`)).status).toBe(200);
+  });
+});
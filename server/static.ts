@@ -0,0 +1,65 @@
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import { IncomingMessage, ServerResponse } from 'http';
+import path from 'path';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.webmanifest': 'application/manifest+json',
+};
+
+// O navegador precisa revalidar o shell e o service worker para enxergar um deploy novo
+const ALWAYS_REVALIDATE = new Set(['index.html', 'sw.js']);
+
+const isFile = (file: string) => stat(file).then(info => info.isFile(), () => false);
+
+const sendText = (res: ServerResponse, status: number, text: string) => {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+  res.end(text);
+};
+
+// Serve o build do Vite; rotas desconhecidas caem no index.html (app de página única)
+export const serveStatic = (root: string) => {
+  const base = path.resolve(root);
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      // Escape % malformado (ex.: /%E0%A4%A)
+      sendText(res, 400, 'Caminho inválido.');
+      return;
+    }
+    const requested = path.resolve(base, `.${pathname}`);
+    const inside = requested === base || requested.startsWith(`${base}${path.sep}`);
+    const file = inside && (await isFile(requested)) ? requested : path.join(base, 'index.html');
+
+    if (!(await isFile(file))) {
+      sendText(res, 404, 'Build não encontrado. Rode "npm run build" antes de "npm start".');
+      return;
+    }
+
+    // O arquivo pode sumir entre o stat e a leitura (ex.: deploy no meio do pedido)
+    const stream = createReadStream(file);
+    stream.on('error', err => {
+      console.error('Falha ao ler arquivo estático:', err);
+      if (!res.headersSent) sendText(res, 500, 'Erro ao ler o arquivo.');
+      else res.destroy();
+    });
+    stream.on('open', () => {
+      res.writeHead(200, {
+        'Content-Type': MIME_TYPES[path.extname(file)] ?? 'application/octet-stream',
+        ...(ALWAYS_REVALIDATE.has(path.basename(file)) ? { 'Cache-Control': 'no-cache' } : {}),
+      });
+      stream.pipe(res);
+    });
+  };
+};
@@ -0,0 +1,14 @@
+import { Plugin } from 'vite';
+import { createApiFromConfig } from './api';
+import { readServerConfig } from './config';
+
+// Monta as rotas /api dentro do próprio Vite, em `npm run dev` e `npm run preview`
+export const apiPlugin = (env: Record<string, string>): Plugin => ({
+  name: 'o-que-tem-ai-api',
+  configureServer(server) {
+    server.middlewares.use(createApiFromConfig(readServerConfig(env)));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createApiFromConfig(readServerConfig(env)));
+  },
+});
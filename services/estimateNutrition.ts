@@ -0,0 +1,32 @@
+import { IngredientNutrition, NutritionEstimate, Recipe } from '../types';
+import { matchNutritionTable, totalNutrition } from '../utils/nutrition';
+import { ingredientKey } from '../utils/pantry';
+import { isAbortError, RecipeProvider, RequestOptions } from './recipeProvider';
+
+// Soma a tabela local e só consulta o provider para os itens que ela não conhece
+export const estimateRecipeNutrition = async (
+  provider: RecipeProvider,
+  recipe: Recipe,
+  options: RequestOptions = {}
+): Promise<NutritionEstimate> => {
+  const { known, unknown, missing } = matchNutritionTable(recipe.ingredients);
+
+  let fromModel: IngredientNutrition[] = [];
+  if (unknown.length) {
+    try {
+      fromModel = await provider.estimateNutrition(unknown, options);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      // Sem o modelo, a estimativa segue só com a tabela e avisa o que ficou de fora
+      console.error('Falha ao estimar nutrientes pelo modelo:', err);
+    }
+  }
+
+  const answered = new Set(fromModel.map(item => ingredientKey(item.item)));
+  const unanswered = unknown.filter(ingredient => !answered.has(ingredientKey(ingredient.item)));
+
+  return totalNutrition([...known, ...fromModel], recipe.servings, {
+    estimatedByModel: fromModel.map(item => item.item),
+    missing: [...missing, ...unanswered.map(ingredient => ingredient.item)],
+  });
+};
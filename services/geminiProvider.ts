@@ -0,0 +1,164 @@
+import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { DetectedIngredient, IngredientNutrition, Recipe, RecipeIngredient } from '../types';
+import { parseRecipeResponse } from '../utils/recipeValidation';
+import { CANONICAL_UNITS } from '../utils/units';
+import { parsePartialRecipe } from '../utils/partialRecipe';
+import { toIngredientNutrition } from '../utils/nutrition';
+import { toDetectedIngredient } from '../utils/detections';
+import { PROMPT_LANGUAGE_NAMES } from '../i18n/languages';
+import { buildImagePrompt, buildNutritionPrompt, buildRecipePrompt, buildRecipeSystemPrompt, buildScanPrompt } from './prompts';
+import {
+  ImageInput,
+  RecipeProvider,
+  RecipeRequest,
+  RecipeStreamOptions,
+  RequestOptions,
+  ScanOptions
+} from './recipeProvider';
+
+export interface GeminiConfig {
+  apiKey: string;
+  textModel: string;
+  imageModel: string;
+  // Endereço alternativo da API, usado nos testes com um upstream falso
+  baseUrl?: string;
+}
+
+// A parte do SDK que o provider usa; os testes de componente passam um cliente falso
+export type GeminiClient = Pick<GoogleGenAI, 'models'>;
+
+export const createGeminiProvider = (
+  config: GeminiConfig,
+  ai: GeminiClient = new GoogleGenAI({
+    apiKey: config.apiKey,
+    ...(config.baseUrl ? { httpOptions: { baseUrl: config.baseUrl } } : {}),
+  })
+): RecipeProvider => {
+  const generateRecipe = async (
+    { ingredients, profile, previousRecipes, rejectedIngredients, language = 'pt-BR' }: RecipeRequest,
+    { signal, onProgress }: RecipeStreamOptions = {}
+  ): Promise<Recipe> => {
+    const stream = await ai.models.generateContentStream({
+      model: config.textModel,
+      contents: buildRecipePrompt({ ingredients, previousRecipes, rejectedIngredients }),
+      config: {
+        abortSignal: signal,
+        systemInstruction: buildRecipeSystemPrompt(profile, language),
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            servings: { type: Type.INTEGER, description: "Número de porções que a receita rende" },
+            ingredients: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  quantity: { type: Type.NUMBER, nullable: true },
+                  unit: { type: Type.STRING, nullable: true, description: `Uma de: ${CANONICAL_UNITS.join(', ')}` },
+                  item: { type: Type.STRING },
+                },
+                required: ["item"],
+                propertyOrdering: ["quantity", "unit", "item"]
+              }
+            },
+            instructions: { type: Type.ARRAY, items: { type: Type.STRING } },
+            totalTime: { type: Type.STRING },
+            tip: { type: Type.STRING },
+          },
+          required: ["name", "servings", "ingredients", "instructions", "totalTime"],
+          // Ordem pensada para a exibição progressiva: título e tempo chegam primeiro
+          propertyOrdering: ["name", "totalTime", "servings", "ingredients", "instructions", "tip"]
+        }
+      },
+    });
+
+    let text = '';
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      text += chunk.text ?? '';
+      onProgress?.(parsePartialRecipe(text));
+    }
+
+    return parseRecipeResponse(text);
+  };
+
+  const detectIngredients = async ({ data, mimeType }: ImageInput, { signal, language = 'pt-BR' }: ScanOptions = {}): Promise<DetectedIngredient[]> => {
+    const response = await ai.models.generateContent({
+      model: config.textModel,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING, description: `Nome curto do ingrediente em ${PROMPT_LANGUAGE_NAMES[language]}` },
+              confidence: { type: Type.NUMBER, description: "Certeza da identificação, de 0 a 1" },
+              box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "[ymin, xmin, ymax, xmax] de 0 a 1000" },
+            },
+            required: ["name", "confidence"],
+            propertyOrdering: ["name", "confidence", "box_2d"]
+          }
+        }
+      },
+      contents: [
+        {
+          parts: [
+            { inlineData: { data, mimeType } },
+            { text: buildScanPrompt(language) }
+          ]
+        }
+      ]
+    });
+
+    const items: unknown = JSON.parse(response.text || '[]');
+    if (!Array.isArray(items)) return [];
+    return items.map(toDetectedIngredient).filter((item): item is DetectedIngredient => item !== null);
+  };
+
+  const generateImage = async (recipe: Recipe, { signal }: RequestOptions = {}): Promise<string | undefined> => {
+    const imgResponse: GenerateContentResponse = await ai.models.generateContent({
+      model: config.imageModel,
+      contents: { parts: [{ text: buildImagePrompt(recipe) }] },
+      config: { abortSignal: signal, imageConfig: { aspectRatio: "1:1" } }
+    });
+
+    const part = imgResponse.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+    return part?.inlineData ? `data:image/png;base64,${part.inlineData.data}` : undefined;
+  };
+
+  const estimateNutrition = async (ingredients: RecipeIngredient[], { signal }: RequestOptions = {}): Promise<IngredientNutrition[]> => {
+    const response = await ai.models.generateContent({
+      model: config.textModel,
+      contents: buildNutritionPrompt(ingredients),
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              item: { type: Type.STRING },
+              calories: { type: Type.NUMBER },
+              protein: { type: Type.NUMBER },
+              carbs: { type: Type.NUMBER },
+              fat: { type: Type.NUMBER },
+              fiber: { type: Type.NUMBER },
+            },
+            required: ["item", "calories", "protein", "carbs", "fat", "fiber"]
+          }
+        }
+      }
+    });
+
+    const data: unknown = JSON.parse(response.text || '[]');
+    if (!Array.isArray(data)) return [];
+    return data.map(toIngredientNutrition).filter((item): item is IngredientNutrition => item !== null);
+  };
+
+  return { generateRecipe, detectIngredients, generateImage, estimateNutrition };
+};
@@ -0,0 +1,26 @@
+import { Recipe } from '../types';
+import { findUnlistedIngredients } from '../utils/recipeValidation';
+import { RecipeProvider, RecipeRequest, RecipeStreamOptions } from './recipeProvider';
+
+export interface CheckedRecipe {
+  recipe: Recipe;
+  // Ingredientes fora da lista que continuaram na receita mesmo após a tentativa de correção
+  unlistedIngredients: string[];
+}
+
+// Gera a receita e, se ela usar algo que o usuário não tem, pede uma única correção ao provider
+export const generateCheckedRecipe = async (
+  provider: RecipeProvider,
+  request: RecipeRequest,
+  options: RecipeStreamOptions = {}
+): Promise<CheckedRecipe> => {
+  let recipe = await provider.generateRecipe(request, options);
+  let unlistedIngredients = findUnlistedIngredients(recipe, request.ingredients);
+
+  if (unlistedIngredients.length) {
+    recipe = await provider.generateRecipe({ ...request, rejectedIngredients: unlistedIngredients }, options);
+    unlistedIngredients = findUnlistedIngredients(recipe, request.ingredients);
+  }
+
+  return { recipe, unlistedIngredients };
+};
@@ -0,0 +1,15 @@
+import { AppConfig, config } from '../config';
+import { createLocalProvider } from './localProvider';
+import { createProxyProvider } from './proxyProvider';
+import { RecipeProvider } from './recipeProvider';
+
+export * from './recipeProvider';
+export * from './generateRecipe';
+export * from './estimateNutrition';
+export * from './planMeals';
+export { ProxyError } from './proxyProvider';
+
+export const createRecipeProvider = (appConfig: AppConfig): RecipeProvider =>
+  appConfig.provider === 'local' ? createLocalProvider() : createProxyProvider({ baseUrl: appConfig.apiBaseUrl });
+
+export const recipeProvider = createRecipeProvider(config);
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_PROFILE } from '../utils/profile';
+import { createLocalProvider } from './localProvider';
+
+const provider = createLocalProvider({ stepDelay: 0 });
+
+const request = {
+  ingredients: [{ id: 'a1', name: 'Egg' }, { id: 'b2', name: 'Tomato' }, { id: 'c3', name: 'Onion' }],
+  profile: { ...EMPTY_PROFILE, diets: ['Vegano', 'Sem Glúten'] },
+  previousRecipes: [],
+};
+
+describe('provider local', () => {
+  it('escreve a receita em inglês sem os nomes das dietas em português', async () => {
+    const recipe = await provider.generateRecipe({ ...request, language: 'en' });
+    const text = [recipe.name, ...recipe.instructions].join(' ');
+
+    expect(recipe.name).toContain('with Tomato and Onion');
+    expect(text).toContain('keeping it vegan and gluten-free');
+    expect(text).not.toMatch(/vegano|glúten| e /i);
+  });
+
+  it('usa o conector e as dietas do espanhol', async () => {
+    const recipe = await provider.generateRecipe({ ...request, language: 'es' });
+    expect(recipe.name).toContain('con Tomato y Onion');
+    expect(recipe.instructions.join(' ')).toContain('opción vegano y sin gluten');
+  });
+});
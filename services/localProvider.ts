@@ -0,0 +1,171 @@
+import { DetectedIngredient, IngredientNutrition, Recipe, RecipeIngredient } from '../types';
+import { Language, MESSAGES, optionLabel } from '../i18n';
+import { ImageInput, RecipeProvider, RecipeRequest, RecipeStreamOptions, RequestOptions, ScanOptions } from './recipeProvider';
+
+// Provider determinístico para desenvolvimento, demos e testes sem rede nem chave de API.
+// A mesma entrada sempre produz a mesma receita.
+
+interface LocalTemplates {
+  techniques: { name: string; verb: string; time: string }[];
+  // Conector das listas ("ovo e tomate")
+  and: string;
+  title: (technique: string, main: string, extras: string) => string;
+  fallbackMain: string;
+  salt: string;
+  oil: string;
+  cut: (items: string) => string;
+  season: (diets: string) => string;
+  cook: (verb: string) => string;
+  serve: string;
+  tip: string;
+  sample: string[];
+}
+
+const TEMPLATES: Record<Language, LocalTemplates> = {
+  'pt-BR': {
+    techniques: [
+      { name: 'Refogado', verb: 'Refogue', time: '20 minutos' },
+      { name: 'Assado', verb: 'Asse', time: '35 minutos' },
+      { name: 'Grelhado', verb: 'Grelhe', time: '15 minutos' },
+      { name: 'Cozido', verb: 'Cozinhe', time: '25 minutos' },
+    ],
+    and: 'e',
+    title: (technique, main, extras) => `${technique} de ${main}${extras ? ` com ${extras}` : ''}`,
+    fallbackMain: 'Ingredientes',
+    salt: 'Sal a gosto',
+    oil: 'Óleo',
+    cut: items => `Lave e corte ${items || 'os ingredientes'} em pedaços pequenos.`,
+    season: diets => `Tempere com sal${diets ? `, pensando em uma opção ${diets.toLowerCase()}` : ''}.`,
+    cook: verb => `${verb} tudo até ficar no ponto.`,
+    serve: 'Sirva em seguida.',
+    tip: 'Receita gerada pelo provider local (modo offline).',
+    sample: ['Ovo', 'Tomate', 'Cebola', 'Queijo'],
+  },
+  en: {
+    techniques: [
+      { name: 'Sautéed', verb: 'Sauté', time: '20 minutes' },
+      { name: 'Roasted', verb: 'Roast', time: '35 minutes' },
+      { name: 'Grilled', verb: 'Grill', time: '15 minutes' },
+      { name: 'Stewed', verb: 'Simmer', time: '25 minutes' },
+    ],
+    and: 'and',
+    title: (technique, main, extras) => `${technique} ${main}${extras ? ` with ${extras}` : ''}`,
+    fallbackMain: 'Ingredients',
+    salt: 'Salt to taste',
+    oil: 'Oil',
+    cut: items => `Wash and cut ${items || 'the ingredients'} into small pieces.`,
+    season: diets => `Season with salt${diets ? `, keeping it ${diets.toLowerCase()}` : ''}.`,
+    cook: verb => `${verb} everything until done.`,
+    serve: 'Serve right away.',
+    tip: 'Recipe generated by the local provider (offline mode).',
+    sample: ['Egg', 'Tomato', 'Onion', 'Cheese'],
+  },
+  es: {
+    techniques: [
+      { name: 'Salteado', verb: 'Saltee', time: '20 minutos' },
+      { name: 'Asado', verb: 'Ase', time: '35 minutos' },
+      { name: 'A la plancha', verb: 'Cocine a la plancha', time: '15 minutos' },
+      { name: 'Guiso', verb: 'Cocine', time: '25 minutos' },
+    ],
+    and: 'y',
+    title: (technique, main, extras) => `${technique} de ${main}${extras ? ` con ${extras}` : ''}`,
+    fallbackMain: 'Ingredientes',
+    salt: 'Sal al gusto',
+    oil: 'Aceite',
+    cut: items => `Lave y corte ${items || 'los ingredientes'} en trozos pequeños.`,
+    season: diets => `Sazone con sal${diets ? `, pensando en una opción ${diets.toLowerCase()}` : ''}.`,
+    cook: verb => `${verb} todo hasta que esté en su punto.`,
+    serve: 'Sirva enseguida.',
+    tip: 'Receta generada por el provider local (modo sin conexión).',
+    sample: ['Huevo', 'Tomate', 'Cebolla', 'Queso'],
+  },
+};
+
+const SAMPLE_DETECTION: Omit<DetectedIngredient, 'name'>[] = [
+  { confidence: 0.95, box: { x: 0.08, y: 0.1, width: 0.25, height: 0.2 } },
+  { confidence: 0.88, box: { x: 0.45, y: 0.15, width: 0.2, height: 0.2 } },
+  { confidence: 0.72, box: { x: 0.15, y: 0.55, width: 0.22, height: 0.25 } },
+  { confidence: 0.4, box: { x: 0.6, y: 0.5, width: 0.3, height: 0.3 } },
+];
+
+// Valores fixos por item: o provider local não conhece a composição dos alimentos
+const GENERIC_NUTRIENTS = { calories: 50, protein: 2, carbs: 8, fat: 1, fiber: 1 };
+
+const hash = (text: string) =>
+  [...text].reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+// Espera abortável usada para simular a latência e o streaming de um modelo real
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+export interface LocalProviderOptions {
+  // Intervalo entre os trechos simulados; use 0 em testes
+  stepDelay?: number;
+}
+
+export const createLocalProvider = ({ stepDelay = 150 }: LocalProviderOptions = {}): RecipeProvider => {
+  const generateRecipe = async (
+    { ingredients, profile, previousRecipes, language = 'pt-BR' }: RecipeRequest,
+    { signal, onProgress }: RecipeStreamOptions = {}
+  ): Promise<Recipe> => {
+    const text = TEMPLATES[language];
+    const items = ingredients.map(item => item.name);
+    const list = (values: string[]) => values.join(` ${text.and} `);
+    const technique = text.techniques[(hash(items.join('|').toLowerCase()) + previousRecipes.length) % text.techniques.length];
+
+    const recipe: Recipe = {
+      name: text.title(technique.name, items[0] || text.fallbackMain, list(items.slice(1, 3))),
+      servings: 2,
+      ingredients: [
+        ...ingredients.map(({ name, quantity, unit }) => ({ item: name, ...(quantity !== undefined ? { quantity, unit } : {}) })),
+        { item: text.salt },
+        { item: text.oil, quantity: 1, unit: 'colher de sopa' },
+      ],
+      instructions: [
+        text.cut(items.join(', ')),
+        text.season(list(profile.diets.map(diet => optionLabel(MESSAGES[language], diet)))),
+        text.cook(technique.verb),
+        text.serve,
+      ],
+      totalTime: technique.time,
+      tip: text.tip,
+    };
+
+    const stages: (keyof Recipe)[] = ['name', 'totalTime', 'servings', 'ingredients', 'instructions', 'tip'];
+    const partial: Partial<Recipe> = {};
+    for (const key of stages) {
+      await wait(stepDelay, signal);
+      Object.assign(partial, { [key]: recipe[key] });
+      onProgress?.({ ...partial });
+    }
+    return recipe;
+  };
+
+  const detectIngredients = async (_image: ImageInput, { signal, language = 'pt-BR' }: ScanOptions = {}): Promise<DetectedIngredient[]> => {
+    await wait(stepDelay, signal);
+    return SAMPLE_DETECTION.map((detection, i) => ({ name: TEMPLATES[language].sample[i], ...detection }));
+  };
+
+  const generateImage = async (recipe: Recipe, { signal }: RequestOptions = {}): Promise<string | undefined> => {
+    await wait(stepDelay * 4, signal);
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="100%" height="100%" fill="#ffedd5"/><text x="50%" y="50%" text-anchor="middle" font-family="sans-serif" font-size="28" fill="#c2410c">${escapeXml(recipe.name)}</text></svg>`;
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  };
+
+  const estimateNutrition = async (ingredients: RecipeIngredient[], { signal }: RequestOptions = {}): Promise<IngredientNutrition[]> => {
+    await wait(stepDelay, signal);
+    return ingredients.map(({ item }) => ({ item, ...GENERIC_NUTRIENTS }));
+  };
+
+  return { generateRecipe, detectIngredients, generateImage, estimateNutrition };
+};
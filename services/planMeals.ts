@@ -0,0 +1,45 @@
+import { DietaryProfile, PantryItem, PantryUsage, Recipe } from '../types';
+import { Language } from '../i18n/languages';
+import { applyUsage, computeUsage, sortByExpiry } from '../utils/mealPlan';
+import { generateCheckedRecipe } from './generateRecipe';
+import { RecipeProvider, RequestOptions } from './recipeProvider';
+
+export interface PlannedRecipe {
+  recipe: Recipe;
+  // Despensa prevista no momento desta refeição (depois das anteriores)
+  ingredients: PantryItem[];
+  usage: PantryUsage[];
+}
+
+export interface PlanMealsOptions extends RequestOptions {
+  // Chamado a cada refeição pronta, para a tela mostrar o plano crescendo
+  onMeal?: (meal: PlannedRecipe, index: number) => void;
+  language?: Language;
+}
+
+// Gera as refeições em sequência: cada uma parte do que sobrou das anteriores, com o que vence antes no topo
+export const planMeals = async (
+  provider: RecipeProvider,
+  pantry: PantryItem[],
+  count: number,
+  profile: DietaryProfile,
+  { signal, onMeal, language }: PlanMealsOptions = {}
+): Promise<PlannedRecipe[]> => {
+  const meals: PlannedRecipe[] = [];
+  let remaining = sortByExpiry(pantry);
+
+  while (meals.length < count && remaining.length > 0) {
+    const { recipe } = await generateCheckedRecipe(
+      provider,
+      { ingredients: remaining, profile, previousRecipes: meals.map(meal => meal.recipe), language },
+      { signal }
+    );
+    const usage = computeUsage(remaining, recipe);
+    const meal = { recipe, ingredients: remaining, usage };
+    meals.push(meal);
+    onMeal?.(meal, meals.length - 1);
+    remaining = applyUsage(remaining, usage);
+  }
+
+  return meals;
+};
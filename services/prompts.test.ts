@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe } from '../types';
+import { EMPTY_PROFILE } from '../utils/profile';
+import { buildImagePrompt, buildNutritionPrompt, buildRecipePrompt, buildRecipeSystemPrompt, buildScanPrompt } from './prompts';
+
+const PANTRY = [
+  { id: 'a1', name: 'Ovo', quantity: 6, unit: 'un' },
+  { id: 'b2', name: 'Leite', expiresAt: '2026-10-20' },
+];
+
+const OMELETE: Recipe = {
+  name: 'Omelete',
+  servings: 1,
+  ingredients: [{ item: 'Ovo', quantity: 2, unit: 'un' }],
+  instructions: ['Bata os ovos.', 'Frite em fogo baixo.'],
+  totalTime: '10 minutos',
+};
+
+describe('prompts do Gemini', () => {
+  it('envia a despensa como JSON sem os ids internos', () => {
+    const prompt = buildRecipePrompt({ ingredients: PANTRY, previousRecipes: [] });
+    expect(prompt).toBe('Ingredientes disponíveis: [{"name":"Ovo","quantity":6,"unit":"un"},{"name":"Leite","expiresAt":"2026-10-20"}].');
+    expect(prompt).not.toContain('a1');
+  });
+
+  it('lista as ideias anteriores para a variação mudar a técnica', () => {
+    const prompt = buildRecipePrompt({ ingredients: PANTRY, previousRecipes: [OMELETE] });
+    expect(prompt).toContain('1. "Omelete": Bata os ovos. Frite em fogo baixo.');
+    expect(prompt).toContain('mudando a técnica de preparo');
+  });
+
+  it('pede a correção citando os ingredientes recusados', () => {
+    const prompt = buildRecipePrompt({ ingredients: PANTRY, previousRecipes: [], rejectedIngredients: ['bacon', 'queijo'] });
+    expect(prompt).toContain('usou ingredientes que não foram listados (bacon, queijo)');
+  });
+
+  it('inclui o idioma e as regras do perfil no prompt de sistema', () => {
+    const prompt = buildRecipeSystemPrompt({ ...EMPTY_PROFILE, allergens: ['Leite'], maxMinutes: 20 }, 'en');
+    expect(prompt).toContain('em inglês');
+    expect(prompt).toContain('- Alergias: Leite.');
+    expect(prompt).toContain('- Tempo total máximo: 20 minutos.');
+    expect(prompt).not.toContain('sem restrições');
+  });
+
+  it('avisa quando o perfil não tem restrições', () => {
+    expect(buildRecipeSystemPrompt(EMPTY_PROFILE)).toContain('- Perfil do usuário: sem restrições.');
+  });
+
+  it('monta os prompts de foto, imagem e nutrição', () => {
+    expect(buildScanPrompt('es')).toContain('em espanhol');
+    expect(buildImagePrompt(OMELETE)).toContain('Omelete');
+    expect(buildNutritionPrompt([{ item: 'Quiabo', quantity: 200, unit: 'g' }])).toContain('- 200 g de Quiabo (item: Quiabo)');
+  });
+});
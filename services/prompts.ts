@@ -0,0 +1,49 @@
+import { DietaryProfile, PantryItem, Recipe, RecipeIngredient } from '../types';
+import { CANONICAL_UNITS, formatIngredient } from '../utils/units';
+import { describeProfileForPrompt } from '../utils/profile';
+import { Language, PROMPT_LANGUAGE_NAMES } from '../i18n/languages';
+import { RecipeRequest } from './recipeProvider';
+
+// Textos enviados ao Gemini; funções puras para os testes conferirem o pedido sem chamar a API
+
+// Resumo das ideias anteriores para o modelo realmente variar a técnica
+const describePreviousRecipes = (recipes: Recipe[]) =>
+  recipes
+    .map((recipe, i) => `${i + 1}. "${recipe.name}": ${recipe.instructions.join(' ').slice(0, 300)}`)
+    .join('\n');
+
+// Envia a despensa como dados estruturados (sem os ids internos)
+export const describePantry = (items: PantryItem[]) =>
+  JSON.stringify(items.map(({ id, ...item }) => item));
+
+export const buildRecipeSystemPrompt = (profile: DietaryProfile, language: Language = 'pt-BR') =>
+  `Você é um chef prático do dia a dia. Seu papel é criar UMA receita possível agora usando APENAS os ingredientes informados (considere apenas sal, água e óleo como extras implícitos se necessário).
+    Regras obrigatórias:
+    - Nunca sugira ingredientes que a pessoa não citou.
+    - Nunca ofereça mais de UMA receita.
+    - Use preparo simples, caseiro e rápido.
+    - Os ingredientes chegam em JSON com nome, quantidade/unidade e validade (expiresAt) quando informados. Respeite as quantidades e priorize o que vence primeiro.
+    - Informe quantas porções a receita rende (servings) e, para cada ingrediente, a quantidade numérica, a unidade (${CANONICAL_UNITS.join(', ')}) e o item. Deixe quantidade e unidade vazias para itens "a gosto".
+    - Se o usuário pedir variação, mude a técnica de preparo (ex: de cozido para frito).
+    - Escreva o nome, o tempo total, os passos e a dica em ${PROMPT_LANGUAGE_NAMES[language]}. Mantenha o nome de cada ingrediente como veio na lista e use as unidades exatamente como listadas acima, sem traduzir.
+    ${describeProfileForPrompt(profile).map(rule => `- ${rule}`).join('\n    ') || '- Perfil do usuário: sem restrições.'}`;
+
+// Despensa, ideias já sugeridas (variação) e ingredientes recusados na tentativa anterior
+export const buildRecipePrompt = ({ ingredients, previousRecipes, rejectedIngredients }: Pick<RecipeRequest, 'ingredients' | 'previousRecipes' | 'rejectedIngredients'>) => {
+  const history = previousRecipes.length
+    ? ` Você já sugeriu estas receitas com os mesmos ingredientes:\n${describePreviousRecipes(previousRecipes)}\nDê uma alternativa diferente de todas elas, mudando a técnica de preparo.`
+    : '';
+  const correction = rejectedIngredients?.length
+    ? ` Sua resposta anterior usou ingredientes que não foram listados (${rejectedIngredients.join(', ')}). Refaça a receita sem eles.`
+    : '';
+  return `Ingredientes disponíveis: ${describePantry(ingredients)}.${history}${correction}`;
+};
+
+export const buildScanPrompt = (language: Language = 'pt-BR') =>
+  `Analise esta foto de uma geladeira, freezer ou despensa e identifique cada ingrediente alimentar visível. Para cada um, informe o nome curto em ${PROMPT_LANGUAGE_NAMES[language]}, a sua certeza e a caixa delimitadora na foto. Não liste embalagens vazias nem itens que não são comida. Se a foto for de uma nota fiscal ou lista de compras, liste os alimentos escritos nela com o nome por extenso, sem caixa delimitadora.`;
+
+export const buildImagePrompt = (recipe: Recipe) =>
+  `Foto profissional de comida: ${recipe.name}, estilo minimalista, fundo claro.`;
+
+export const buildNutritionPrompt = (ingredients: RecipeIngredient[]) =>
+  `Estime calorias (kcal), proteínas, carboidratos, gorduras e fibras (g) do TOTAL de cada ingrediente abaixo, na quantidade indicada, usando como referência a Tabela Brasileira de Composição de Alimentos (TACO). Repita o nome do item exatamente como recebido.\n${ingredients.map(ingredient => `- ${formatIngredient(ingredient)} (item: ${ingredient.item})`).join('\n')}`;
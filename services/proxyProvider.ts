@@ -0,0 +1,113 @@
+import { DetectedIngredient, IngredientNutrition, Recipe, RecipeIngredient } from '../types';
+import { RecipeValidationError } from '../utils/recipeValidation';
+import { ImageInput, RecipeProvider, RecipeRequest, RecipeStreamOptions, RequestOptions, ScanOptions } from './recipeProvider';
+
+// Contrato entre o navegador e o servidor do app (ver server/api.ts)
+
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'payload_too_large'
+  | 'rate_limited'
+  | 'invalid_recipe'
+  | 'upstream'
+  | 'not_configured';
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  // Problemas encontrados na receita quando code === 'invalid_recipe'
+  issues?: string[];
+}
+
+// /recipe responde em NDJSON: um evento por linha
+export type RecipeStreamEvent =
+  | { type: 'progress'; recipe: Partial<Recipe> }
+  | { type: 'done'; recipe: Recipe }
+  | { type: 'error'; error: ApiErrorBody };
+
+export class ProxyError extends Error {
+  constructor(public status: number, public code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+const toError = (status: number, body: ApiErrorBody) =>
+  body.code === 'invalid_recipe'
+    ? new RecipeValidationError(body.issues ?? [body.message])
+    : new ProxyError(status, body.code, body.message);
+
+const readError = async (response: Response) => {
+  try {
+    const { error } = await response.json() as { error: ApiErrorBody };
+    return toError(response.status, error);
+  } catch {
+    return new ProxyError(response.status, 'upstream', `Falha na requisição (${response.status})`);
+  }
+};
+
+// Lê o corpo em streaming e entrega cada linha completa
+async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    yield* lines.filter(line => line.trim());
+  }
+  if (buffer.trim()) yield buffer;
+}
+
+export interface ProxyProviderOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+}
+
+export const createProxyProvider = ({ baseUrl, fetch: fetchImpl = (input, init) => fetch(input, init) }: ProxyProviderOptions): RecipeProvider => {
+  const post = async (path: string, body: unknown, signal?: AbortSignal) => {
+    const response = await fetchImpl(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) throw await readError(response);
+    return response;
+  };
+
+  const generateRecipe = async (request: RecipeRequest, { signal, onProgress }: RecipeStreamOptions = {}): Promise<Recipe> => {
+    const response = await post('/recipe', request, signal);
+    if (!response.body) throw new ProxyError(502, 'upstream', 'Resposta vazia do servidor');
+
+    for await (const line of readLines(response.body)) {
+      const event = JSON.parse(line) as RecipeStreamEvent;
+      if (event.type === 'progress') onProgress?.(event.recipe);
+      if (event.type === 'done') return event.recipe;
+      if (event.type === 'error') throw toError(502, event.error);
+    }
+    throw new ProxyError(502, 'upstream', 'A resposta do servidor foi interrompida');
+  };
+
+  const detectIngredients = async (image: ImageInput, { signal, language }: ScanOptions = {}): Promise<DetectedIngredient[]> => {
+    const response = await post('/scan', { image, language }, signal);
+    return (await response.json() as { ingredients: DetectedIngredient[] }).ingredients;
+  };
+
+  const generateImage = async (recipe: Recipe, { signal }: RequestOptions = {}): Promise<string | undefined> => {
+    const response = await post('/image', { recipe }, signal);
+    return (await response.json() as { imageUrl?: string }).imageUrl;
+  };
+
+  const estimateNutrition = async (ingredients: RecipeIngredient[], { signal }: RequestOptions = {}): Promise<IngredientNutrition[]> => {
+    const response = await post('/nutrition', { ingredients }, signal);
+    return (await response.json() as { items: IngredientNutrition[] }).items;
+  };
+
+  return { generateRecipe, detectIngredients, generateImage, estimateNutrition };
+};
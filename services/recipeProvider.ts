@@ -0,0 +1,48 @@
+import { DetectedIngredient, DietaryProfile, IngredientNutrition, PantryItem, Recipe, RecipeIngredient } from '../types';
+import { Language } from '../i18n/languages';
+
+export interface RecipeRequest {
+  ingredients: PantryItem[];
+  // Dietas, alergias, equipamentos e tempo máximo que a receita precisa respeitar
+  profile: DietaryProfile;
+  // Receitas já sugeridas nesta sessão para os mesmos ingredientes; vazia na primeira ideia
+  previousRecipes: Recipe[];
+  // Ingredientes não listados que uma tentativa anterior usou, para a nova tentativa corrigir
+  rejectedIngredients?: string[];
+  // Idioma do texto da receita; ausente equivale a pt-BR
+  language?: Language;
+}
+
+export interface ImageInput {
+  data: string;
+  mimeType: string;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface ScanOptions extends RequestOptions {
+  // Idioma dos nomes detectados
+  language?: Language;
+}
+
+export interface RecipeStreamOptions extends RequestOptions {
+  // Chamado a cada trecho recebido com a parte da receita que já pode ser exibida
+  onProgress?: (partial: Partial<Recipe>) => void;
+}
+
+export interface RecipeProvider {
+  generateRecipe(request: RecipeRequest, options?: RecipeStreamOptions): Promise<Recipe>;
+  detectIngredients(image: ImageInput, options?: ScanOptions): Promise<DetectedIngredient[]>;
+  generateImage(recipe: Recipe, options?: RequestOptions): Promise<string | undefined>;
+  // Totais de cada ingrediente na quantidade informada; usado só para itens fora da tabela local
+  estimateNutrition(ingredients: RecipeIngredient[], options?: RequestOptions): Promise<IngredientNutrition[]>;
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError' ||
+  error instanceof Error && error.name === 'AbortError';
+
+// fetch rejeita com TypeError quando não há rede (offline, DNS, conexão caiu no meio)
+export const isNetworkError = (error: unknown) => error instanceof TypeError;
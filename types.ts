@@ -0,0 +1,144 @@
+import { Language, UnitSystem } from './i18n/languages';
+
+export interface RecipeIngredient {
+  item: string;
+  quantity?: number;
+  // Uma das unidades canônicas (ver utils/units.ts)
+  unit?: string;
+}
+
+export interface Recipe {
+  name: string;
+  servings: number;
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+  totalTime: string;
+  tip?: string;
+  imageUrl?: string;
+  // Calculada depois da geração, junto com a foto
+  nutrition?: NutritionEstimate;
+}
+
+// Calorias em kcal; os demais em gramas
+export interface Nutrients {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+}
+
+// Valores totais de um ingrediente na quantidade pedida pela receita
+export interface IngredientNutrition extends Nutrients {
+  item: string;
+}
+
+export interface NutritionEstimate {
+  perServing: Nutrients;
+  // Itens fora da tabela local, estimados pelo modelo
+  estimatedByModel: string[];
+  // Itens que ficaram fora da conta (sem quantidade ou sem estimativa)
+  missing: string[];
+}
+
+export interface PantryItem {
+  id: string;
+  name: string;
+  quantity?: number;
+  unit?: string;
+  // Data no formato AAAA-MM-DD
+  expiresAt?: string;
+}
+
+export interface SavedRecipe {
+  id: string;
+  recipe: Recipe;
+  // Despensa e preferência que produziram a receita
+  ingredients: PantryItem[];
+  preference: string;
+  createdAt: string;
+  favorite: boolean;
+  tags: string[];
+}
+
+// Uma das ideias geradas na sessão para a mesma despensa
+export interface RecipeVariation {
+  recipe: Recipe;
+  unlistedIngredients: string[];
+  // Entrada correspondente no livro de receitas
+  entryId: string;
+}
+
+// Quanto uma refeição planejada tira de um item da despensa, na unidade do próprio item
+export interface PantryUsage {
+  name: string;
+  // Ausente quando não dá para converter a quantidade da receita para a unidade da despensa
+  quantity?: number;
+  unit?: string;
+  expiresAt?: string;
+}
+
+export type MealSlot = 'lunch' | 'dinner';
+
+export interface PlannedMeal {
+  id: string;
+  // Data no formato AAAA-MM-DD
+  date: string;
+  slot: MealSlot;
+  recipe: Recipe;
+  // Entrada correspondente no livro de receitas
+  entryId: string;
+  usage: PantryUsage[];
+  cooked: boolean;
+}
+
+export interface MealPlan {
+  createdAt: string;
+  meals: PlannedMeal[];
+}
+
+// Caixa normalizada (0 a 1) em relação à foto analisada
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DetectedIngredient {
+  name: string;
+  // 0 a 1
+  confidence: number;
+  box?: BoundingBox;
+}
+
+export interface DietaryProfile {
+  diets: string[];
+  allergens: string[];
+  dislikes: string[];
+  // Equipamentos disponíveis; vazio significa que a cozinha tem de tudo
+  equipment: string[];
+  maxMinutes?: number;
+}
+
+// Pedido de receita feito sem internet; roda quando a conexão voltar
+export interface QueuedGeneration {
+  id: string;
+  createdAt: string;
+  // Fotografia da despensa e do perfil no momento do pedido
+  ingredients: PantryItem[];
+  profile: DietaryProfile;
+  // Idioma escolhido na hora do pedido
+  language: Language;
+}
+
+export type TextSize = 'normal' | 'large' | 'larger';
+
+export interface Settings {
+  language: Language;
+  // Ausente segue o padrão do idioma (ver DEFAULT_UNIT_SYSTEM)
+  unitSystem?: UnitSystem;
+  textSize?: TextSize;
+  // Ausente segue a preferência do sistema (prefers-contrast)
+  highContrast?: boolean;
+}
@@ -0,0 +1,24 @@
+import { SavedRecipe } from '../types';
+import { normalizeText } from './text';
+
+const searchableText = ({ recipe, ingredients, preference, tags }: SavedRecipe) =>
+  normalizeText([
+    recipe.name,
+    recipe.tip ?? '',
+    preference,
+    ...recipe.ingredients.map(ingredient => ingredient.item),
+    ...recipe.instructions,
+    ...ingredients.map(item => item.name),
+    ...tags,
+  ].join(' '));
+
+// Busca em todo o texto da receita; todos os termos precisam aparecer
+export const searchCookbook = (entries: SavedRecipe[], query: string, favoritesOnly = false) => {
+  const terms = normalizeText(query).split(/\s+/).filter(Boolean);
+  return entries.filter(entry =>
+    (!favoritesOnly || entry.favorite) &&
+    terms.every(term => searchableText(entry).includes(term))
+  );
+};
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').toLowerCase();
@@ -0,0 +1,41 @@
+// Wrapper mínimo de IndexedDB para dados grandes demais para o localStorage (ex.: fotos das receitas)
+const DB_NAME = 'o-que-tem-ai';
+const DB_VERSION = 1;
+const STORES = ['recipes'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach(store => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T,>(store: StoreName, mode: IDBTransactionMode, action: (objectStore: IDBObjectStore) => IDBRequest) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAll = <T,>(store: StoreName) => run<T[]>(store, 'readonly', objectStore => objectStore.getAll());
+
+export const put = <T,>(store: StoreName, value: T) => run<IDBValidKey>(store, 'readwrite', objectStore => objectStore.put(value));
+
+export const remove = (store: StoreName, key: string) => run<undefined>(store, 'readwrite', objectStore => objectStore.delete(key));
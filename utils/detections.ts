@@ -0,0 +1,39 @@
+import { BoundingBox, DetectedIngredient } from '../types';
+import { ingredientKey } from './pantry';
+
+// Abaixo disso o item chega desmarcado na revisão
+export const MIN_CONFIDENCE = 0.5;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+// Converte o formato do Gemini ([ymin, xmin, ymax, xmax] de 0 a 1000) para a caixa normalizada
+export const fromBox2d = (box: unknown): BoundingBox | undefined => {
+  if (!Array.isArray(box) || box.length !== 4 || !box.every(n => typeof n === 'number')) return undefined;
+  // Subtrai ainda na escala 0–1000 para não acumular erro de ponto flutuante
+  const [ymin, xmin, ymax, xmax] = (box as number[]).map(n => Math.min(Math.max(n, 0), 1000));
+  if (xmax <= xmin || ymax <= ymin) return undefined;
+  return { x: xmin / 1000, y: ymin / 1000, width: (xmax - xmin) / 1000, height: (ymax - ymin) / 1000 };
+};
+
+export const toDetectedIngredient = (value: unknown): DetectedIngredient | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { name, confidence, box_2d } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  const box = fromBox2d(box_2d);
+  return {
+    name: name.trim(),
+    confidence: typeof confidence === 'number' ? clamp(confidence) : MIN_CONFIDENCE,
+    ...(box ? { box } : {}),
+  };
+};
+
+// Junta os itens aceitos de várias fotos sem repetir o mesmo ingrediente
+export const uniqueNames = (names: string[]) => {
+  const seen = new Set<string>();
+  return names.filter(name => {
+    const key = ingredientKey(name);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,62 @@
+import { normalizeText } from './text';
+
+export interface DetectedDuration {
+  // Trecho do passo que indicou o tempo, ex.: "10 minutos"
+  label: string;
+  seconds: number;
+}
+
+// Receitas em português, inglês e espanhol (ver i18n/)
+const NUMBER_WORDS: Record<string, number> = {
+  um: 1, uma: 1, dois: 2, duas: 2, tres: 3, quatro: 4, cinco: 5, seis: 6, sete: 7, oito: 8, nove: 9,
+  dez: 10, doze: 12, quinze: 15, vinte: 20, trinta: 30, quarenta: 40, cinquenta: 50,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  uno: 1, dos: 2, cuatro: 4, siete: 7, ocho: 8, nueve: 9, diez: 10, quince: 15, veinte: 20, treinta: 30,
+};
+
+const UNIT_SECONDS: Record<string, number> = { h: 3600, min: 60, s: 1 };
+
+// "meia hora" / "half an hour" / "media hora"
+const HALF_HOUR = '(?:meia hora|half an hour|media hora)';
+
+const NUMBER = `(\\d+(?:[.,]\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = '(horas?|hours?|hrs?|h|minutos?|minutes?|mins?|segundos?|seconds?|secs?|seg|s)';
+// "10 minutos", "5 a 7 min", "5 to 7 minutes", "1h30", "meia hora"
+const DURATION = new RegExp(`(?<![a-z\\d])(?:(?:${NUMBER}\\s*(?:a|-|ou|ate|to|or|o)\\s*)?${NUMBER}\\s*${UNIT}(?:\\s*(\\d{1,2})(?!\\s*(?:min|seg|sec|s\\b)))?\\b|${HALF_HOUR})`, 'g');
+
+const toNumber = (text: string) => NUMBER_WORDS[text] ?? Number(text.replace(',', '.'));
+
+const unitOf = (text: string) => (text.startsWith('h') ? 'h' : text.startsWith('m') ? 'min' : 's');
+
+// Encontra durações em um passo da receita; em intervalos ("5 a 7 minutos") usa o maior valor
+export const detectDurations = (step: string): DetectedDuration[] => {
+  const text = normalizeText(step);
+  const durations: DetectedDuration[] = [];
+
+  for (const match of text.matchAll(DURATION)) {
+    if (!match[3]) {
+      durations.push({ label: match[0], seconds: 1800 });
+      continue;
+    }
+    const unit = unitOf(match[3]);
+    let seconds = toNumber(match[2]) * UNIT_SECONDS[unit];
+    // "1h30" significa 1 hora e 30 minutos
+    if (unit === 'h' && match[4]) seconds += Number(match[4]) * 60;
+    if (seconds > 0) durations.push({ label: match[0].trim(), seconds: Math.round(seconds) });
+  }
+  return durations;
+};
+
+// Tempo total de uma receita ("35 minutos", "1h30") em minutos; 0 quando não dá para ler
+export const totalMinutes = (totalTime: string) =>
+  detectDurations(totalTime).reduce((max, duration) => Math.max(max, duration.seconds / 60), 0);
+
+export const formatClock = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mmss = `${String(m).padStart(h ? 2 : 1, '0')}:${String(s).padStart(2, '0')}`;
+  return h ? `${h}:${mmss}` : mmss;
+};
@@ -0,0 +1,44 @@
+// Lado maior das fotos enviadas para análise; suficiente para reconhecer alimentos
+export const MAX_SCAN_SIZE = 1024;
+
+export interface ScanImage {
+  // Base64 sem o prefixo data:, no formato que os providers recebem
+  data: string;
+  mimeType: string;
+  // Mesma imagem reduzida, para exibir na revisão
+  dataUrl: string;
+}
+
+// Reduz a imagem para caber em maxSize × maxSize e converte para JPEG, mantendo o pedido pequeno
+export const downscaleImage = (
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxSize = MAX_SCAN_SIZE
+): ScanImage => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
+  return { dataUrl, data: dataUrl.split(',')[1], mimeType: 'image/jpeg' };
+};
+
+export const downscaleFile = async (file: File, maxSize = MAX_SCAN_SIZE): Promise<ScanImage> => {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return downscaleImage(bitmap, bitmap.width, bitmap.height, maxSize);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Carrega uma imagem (inclusive data: URL de SVG) para desenhar em canvas
+export const loadImageElement = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Falha ao carregar a imagem'));
+    image.src = src;
+  });
@@ -0,0 +1,113 @@
+import { MealSlot, PantryItem, PantryUsage, Recipe, RecipeIngredient } from '../types';
+import { findFood, gramsOf } from './nutrition';
+import { FoodComposition } from './nutritionTable';
+import { ingredientKey, mergePantryItems } from './pantry';
+import { significantWords } from './recipeValidation';
+import { normalizeAmount } from './servings';
+import { canonicalUnit, formatIngredient, IngredientFormat } from './units';
+
+export const MEAL_COUNTS = [3, 5, 7, 10, 14];
+export const MAX_MEALS_PER_DAY = 2;
+
+const SLOTS: Record<number, MealSlot[]> = { 1: ['dinner'], 2: ['lunch', 'dinner'] };
+
+// Sobras abaixo disso contam como item usado por inteiro
+const EPSILON = 0.01;
+
+// Alimento genérico: converte só entre massa e volume (densidade 1), sem peso por unidade
+const ANY_FOOD: FoodComposition = { name: '', per100g: { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 } };
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Distribui as refeições a partir de hoje: almoço e jantar, ou só jantar
+export const scheduleMeals = (count: number, mealsPerDay: number, start = new Date()) =>
+  Array.from({ length: count }, (_, i) => {
+    const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + Math.floor(i / mealsPerDay));
+    return { date: toDateKey(date), slot: SLOTS[mealsPerDay][i % mealsPerDay] };
+  });
+
+// O que vence primeiro vai para o topo; itens sem validade mantêm a ordem original no fim
+export const sortByExpiry = (items: PantryItem[]) =>
+  [...items].sort((a, b) => {
+    if (a.expiresAt && b.expiresAt) return a.expiresAt.localeCompare(b.expiresAt);
+    return a.expiresAt ? -1 : b.expiresAt ? 1 : 0;
+  });
+
+// Item da despensa com mais palavras em comum com o ingrediente da receita
+const findPantryItem = (pantry: PantryItem[], item: string) => {
+  const words = significantWords(item);
+  let best: PantryItem | undefined;
+  let bestScore = 0;
+  for (const candidate of pantry) {
+    const candidateWords = significantWords(candidate.name);
+    const score = words.filter(word => candidateWords.includes(word)).length;
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Converte a quantidade da receita para a unidade do item da despensa, passando por gramas se preciso
+const amountInPantryUnit = (pantryItem: PantryItem, ingredient: RecipeIngredient) => {
+  if (ingredient.quantity === undefined || pantryItem.quantity === undefined) return undefined;
+  const pantryUnit = canonicalUnit(pantryItem.unit) ?? 'un';
+  const recipeUnit = canonicalUnit(ingredient.unit) ?? 'un';
+  if (pantryUnit === recipeUnit) return ingredient.quantity;
+
+  const food = findFood(pantryItem.name) ?? findFood(ingredient.item) ?? ANY_FOOD;
+  const gramsPerPantryUnit = gramsOf({ item: pantryItem.name, quantity: 1, unit: pantryUnit }, food);
+  const usedGrams = gramsOf(ingredient, food);
+  if (!gramsPerPantryUnit || usedGrams === undefined) return undefined;
+  return usedGrams / gramsPerPantryUnit;
+};
+
+// Quanto de cada item da despensa a receita consome
+export const computeUsage = (pantry: PantryItem[], recipe: Recipe): PantryUsage[] => {
+  const usage: PantryUsage[] = [];
+  for (const ingredient of recipe.ingredients) {
+    const pantryItem = findPantryItem(pantry, ingredient.item);
+    if (!pantryItem) continue;
+    const quantity = amountInPantryUnit(pantryItem, ingredient);
+    const existing = usage.find(entry => entry.name === pantryItem.name);
+    if (existing) {
+      if (existing.quantity !== undefined && quantity !== undefined) existing.quantity += quantity;
+      continue;
+    }
+    usage.push({
+      name: pantryItem.name,
+      ...(quantity !== undefined ? { quantity: Math.min(quantity, pantryItem.quantity ?? quantity), unit: pantryItem.unit } : {}),
+      ...(pantryItem.expiresAt ? { expiresAt: pantryItem.expiresAt } : {}),
+    });
+  }
+  return usage;
+};
+
+// Desconta o consumo; itens sem quantidade conhecida continuam na lista
+export const applyUsage = (pantry: PantryItem[], usage: PantryUsage[]): PantryItem[] =>
+  pantry.flatMap(item => {
+    const used = usage.find(entry => ingredientKey(entry.name) === ingredientKey(item.name));
+    if (!used || used.quantity === undefined || item.quantity === undefined || used.unit !== item.unit) return [item];
+    const remaining = item.quantity - used.quantity;
+    return remaining > EPSILON ? [{ ...item, quantity: remaining }] : [];
+  });
+
+// Desfaz applyUsage (ex.: refeição desmarcada como cozida)
+export const restoreUsage = (pantry: PantryItem[], usage: PantryUsage[]): PantryItem[] =>
+  mergePantryItems(
+    pantry,
+    usage
+      .filter(entry => entry.quantity !== undefined)
+      .map(({ name, quantity, unit, expiresAt }) => ({
+        id: crypto.randomUUID(),
+        name,
+        quantity,
+        ...(unit ? { unit } : {}),
+        ...(expiresAt ? { expiresAt } : {}),
+      }))
+  );
+
+export const formatUsage = ({ name, quantity, unit }: PantryUsage, format?: IngredientFormat) =>
+  quantity === undefined ? name : formatIngredient({ item: name, ...normalizeAmount(quantity, canonicalUnit(unit)) }, format);
@@ -0,0 +1,108 @@
+import { IngredientNutrition, NutritionEstimate, Nutrients, RecipeIngredient } from '../types';
+import { FoodComposition, NUTRITION_TABLE } from './nutritionTable';
+import { ingredientKey } from './pantry';
+import { canonicalUnit } from './units';
+
+// Rótulos de cada campo ficam no catálogo (t.nutrition.fields)
+export const NUTRIENT_FIELDS: { key: keyof Nutrients; unit: string }[] = [
+  { key: 'calories', unit: 'kcal' },
+  { key: 'protein', unit: 'g' },
+  { key: 'carbs', unit: 'g' },
+  { key: 'fat', unit: 'g' },
+  { key: 'fiber', unit: 'g' },
+];
+
+const ML_PER_UNIT: Record<string, number> = { ml: 1, l: 1000, 'xícara': 240, 'colher de sopa': 15, 'colher de chá': 5 };
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, kg: 1000, oz: 28.35, lb: 453.6, pitada: 0.5, 'maço': 100 };
+const DEFAULT_PACKAGE_GRAMS = 300;
+
+const matchKey = (text: string) => ingredientKey(text.replace(/-/g, ' '));
+
+// Nomes mais longos primeiro: "leite condensado" ganha de "leite", "farinha de trigo" de "farinha"
+const FOODS = NUTRITION_TABLE
+  .map(food => ({ food, key: matchKey(food.name) }))
+  .sort((a, b) => b.key.length - a.key.length);
+
+export const findFood = (item: string): FoodComposition | undefined => {
+  const key = ` ${matchKey(item)} `;
+  return FOODS.find(entry => key.includes(` ${entry.key} `))?.food;
+};
+
+// Peso em gramas da quantidade pedida; undefined quando a unidade não tem conversão para este alimento
+export const gramsOf = ({ quantity, unit }: RecipeIngredient, food: FoodComposition): number | undefined => {
+  if (quantity === undefined) return undefined;
+  const canonical = canonicalUnit(unit) ?? 'un';
+  if (canonical in GRAMS_PER_UNIT) return quantity * GRAMS_PER_UNIT[canonical];
+  if (canonical in ML_PER_UNIT) return quantity * ML_PER_UNIT[canonical] * (food.density ?? 1);
+  if (canonical === 'lata' || canonical === 'pacote') return quantity * (food.packageGrams ?? DEFAULT_PACKAGE_GRAMS);
+  if (!food.unitGrams) return undefined;
+  if (canonical === 'dúzia') return quantity * 12 * food.unitGrams;
+  if (canonical === 'un' || canonical === 'dente' || canonical === 'fatia') return quantity * food.unitGrams;
+  return undefined;
+};
+
+const isFreeFood = (food: FoodComposition) => food.per100g.calories === 0;
+
+export interface TableMatch {
+  known: IngredientNutrition[];
+  // Itens com quantidade que a tabela não resolve; vão para o modelo
+  unknown: RecipeIngredient[];
+  missing: string[];
+}
+
+// Calcula pela tabela local tudo o que for possível e separa o resto
+export const matchNutritionTable = (ingredients: RecipeIngredient[]): TableMatch => {
+  const result: TableMatch = { known: [], unknown: [], missing: [] };
+  for (const ingredient of ingredients) {
+    const food = findFood(ingredient.item);
+    if (food && isFreeFood(food)) continue;
+    if (ingredient.quantity === undefined) {
+      // "a gosto": sem quantidade não há o que somar
+      result.missing.push(ingredient.item);
+      continue;
+    }
+    const grams = food && gramsOf(ingredient, food);
+    if (!food || grams === undefined) {
+      result.unknown.push(ingredient);
+      continue;
+    }
+    const factor = grams / 100;
+    result.known.push({
+      item: ingredient.item,
+      calories: food.per100g.calories * factor,
+      protein: food.per100g.protein * factor,
+      carbs: food.per100g.carbs * factor,
+      fat: food.per100g.fat * factor,
+      fiber: food.per100g.fiber * factor,
+    });
+  }
+  return result;
+};
+
+// Valida um item devolvido pelo modelo; números negativos ou ausentes descartam o item
+export const toIngredientNutrition = (value: unknown): IngredientNutrition | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.item !== 'string' || !data.item.trim()) return null;
+  const nutrients = NUTRIENT_FIELDS.map(({ key }) => data[key]);
+  if (!nutrients.every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0)) return null;
+  const [calories, protein, carbs, fat, fiber] = nutrients as number[];
+  return { item: data.item.trim(), calories, protein, carbs, fat, fiber };
+};
+
+export const totalNutrition = (
+  items: IngredientNutrition[],
+  servings: number,
+  sources: Omit<NutritionEstimate, 'perServing'>
+): NutritionEstimate => {
+  const perServing = Object.fromEntries(
+    NUTRIENT_FIELDS.map(({ key }) => {
+      const total = items.reduce((sum, item) => sum + item[key], 0) / Math.max(servings, 1);
+      return [key, key === 'calories' ? Math.round(total) : Math.round(total * 10) / 10];
+    })
+  ) as unknown as Nutrients;
+  return { perServing, ...sources };
+};
+
+export const formatNutrient = (value: number, unit: string, locale = 'pt-BR') =>
+  `${value.toLocaleString(locale, { maximumFractionDigits: 1 })} ${unit}`;
@@ -0,0 +1,102 @@
+import { Nutrients } from '../types';
+
+export interface FoodComposition {
+  name: string;
+  // Valores por 100 g do alimento cru, no padrão da Tabela Brasileira de Composição de Alimentos (TACO)
+  per100g: Nutrients;
+  // g por ml, para converter xícaras e colheres; sem valor, considera 1 (água)
+  density?: number;
+  // Peso típico de uma unidade, dente ou fatia
+  unitGrams?: number;
+  // Peso drenado de uma lata ou de um pacote
+  packageGrams?: number;
+}
+
+const food = (
+  name: string,
+  [calories, protein, carbs, fat, fiber]: [number, number, number, number, number],
+  extra: Omit<FoodComposition, 'name' | 'per100g'> = {}
+): FoodComposition => ({ name, per100g: { calories, protein, carbs, fat, fiber }, ...extra });
+
+// Temperos e líquidos sem valor calórico relevante: entram na conta como zero
+const NEGLIGIBLE = ['sal', 'água', 'pimenta', 'pimenta-do-reino', 'orégano', 'cominho', 'colorau', 'páprica', 'canela', 'louro', 'noz-moscada', 'vinagre']
+  .map(name => food(name, [0, 0, 0, 0, 0], { unitGrams: 1 }));
+
+// Recorte dos itens mais comuns em despensas brasileiras, com valores arredondados
+export const NUTRITION_TABLE: FoodComposition[] = [
+  ...NEGLIGIBLE,
+  // Cereais, farinhas e massas
+  food('arroz', [358, 7.2, 78.8, 0.3, 1.6], { density: 0.85 }),
+  food('arroz integral', [360, 7.3, 77.5, 1.9, 4.8], { density: 0.85 }),
+  food('macarrão', [371, 10.0, 77.9, 1.3, 2.9], { packageGrams: 500 }),
+  food('farinha de trigo', [360, 9.8, 75.1, 1.4, 2.3], { density: 0.55, packageGrams: 1000 }),
+  food('farinha de mandioca', [361, 1.6, 87.9, 0.3, 6.4], { density: 0.6 }),
+  food('fubá', [353, 7.2, 78.9, 1.9, 4.7], { density: 0.6 }),
+  food('aveia', [394, 13.9, 66.6, 8.5, 9.1], { density: 0.4 }),
+  food('pão', [300, 8.0, 58.6, 3.1, 2.3], { unitGrams: 50 }),
+  food('pão de forma', [253, 12.0, 44.1, 2.7, 6.9], { unitGrams: 25 }),
+  food('tapioca', [240, 0.0, 59.0, 0.0, 0.5], { density: 0.7 }),
+  // Leguminosas e oleaginosas
+  food('feijão', [329, 20.0, 61.2, 1.3, 18.4], { density: 0.8 }),
+  food('grão-de-bico', [355, 21.2, 57.9, 5.4, 12.4], { density: 0.8 }),
+  food('lentilha', [339, 23.2, 62.0, 0.8, 16.9], { density: 0.8 }),
+  food('ervilha', [74, 4.6, 13.4, 0.4, 5.1], { density: 0.65, packageGrams: 200 }),
+  food('milho', [98, 3.2, 17.1, 2.4, 4.6], { density: 0.65, packageGrams: 200 }),
+  food('amendoim', [544, 27.2, 20.3, 43.9, 8.0], { density: 0.6 }),
+  food('castanha', [643, 14.5, 15.1, 63.5, 7.9], { unitGrams: 4 }),
+  food('tofu', [64, 6.6, 2.1, 4.0, 0.8]),
+  // Hortaliças, tubérculos e frutas
+  food('batata', [64, 1.8, 14.7, 0.0, 1.2], { unitGrams: 150 }),
+  food('batata-doce', [118, 1.3, 28.2, 0.1, 2.6], { unitGrams: 200 }),
+  food('mandioca', [151, 1.1, 36.2, 0.3, 1.9], { unitGrams: 400 }),
+  food('cenoura', [34, 1.3, 7.7, 0.2, 3.2], { unitGrams: 100 }),
+  food('tomate', [15, 1.1, 3.1, 0.2, 1.2], { unitGrams: 100 }),
+  food('molho de tomate', [38, 1.4, 7.7, 0.2, 1.0], { packageGrams: 340 }),
+  food('extrato de tomate', [61, 2.4, 15.0, 0.2, 2.8], { packageGrams: 140 }),
+  food('cebola', [39, 1.7, 8.9, 0.1, 2.2], { unitGrams: 100 }),
+  food('alho', [113, 7.0, 23.9, 0.2, 4.3], { unitGrams: 5 }),
+  food('pimentão', [21, 1.1, 4.9, 0.2, 2.6], { unitGrams: 150 }),
+  food('abobrinha', [19, 1.1, 4.3, 0.1, 1.4], { unitGrams: 200 }),
+  food('abóbora', [39, 1.7, 8.4, 0.5, 2.2]),
+  food('berinjela', [20, 1.2, 4.4, 0.1, 2.9], { unitGrams: 250 }),
+  food('brócolis', [25, 3.6, 4.0, 0.3, 2.9], { unitGrams: 300 }),
+  food('couve', [27, 2.9, 4.3, 0.5, 3.1], { unitGrams: 20 }),
+  food('alface', [11, 1.3, 1.7, 0.2, 1.8], { unitGrams: 200 }),
+  food('espinafre', [16, 2.0, 2.6, 0.2, 2.1]),
+  food('repolho', [17, 0.9, 3.9, 0.1, 1.9], { unitGrams: 800 }),
+  food('cheiro-verde', [33, 3.3, 5.7, 0.6, 1.9]),
+  food('salsinha', [33, 3.3, 5.7, 0.6, 1.9]),
+  food('cebolinha', [20, 1.9, 3.4, 0.4, 2.4]),
+  food('banana', [98, 1.3, 26.0, 0.1, 2.0], { unitGrams: 70 }),
+  food('maçã', [56, 0.3, 15.2, 0.0, 1.3], { unitGrams: 130 }),
+  food('laranja', [37, 1.0, 8.9, 0.1, 0.8], { unitGrams: 150 }),
+  food('limão', [32, 0.9, 11.1, 0.1, 1.2], { unitGrams: 70 }),
+  food('abacate', [96, 1.2, 6.0, 8.4, 6.3], { unitGrams: 400 }),
+  // Ovos, laticínios e carnes
+  food('ovo', [143, 13.0, 1.6, 8.9, 0.0], { unitGrams: 50 }),
+  food('leite', [61, 3.2, 4.7, 3.3, 0.0], { density: 1.03 }),
+  food('leite condensado', [313, 7.7, 57.0, 6.7, 0.0], { density: 1.3, packageGrams: 395 }),
+  food('creme de leite', [221, 1.5, 4.5, 22.5, 0.0], { packageGrams: 200 }),
+  food('iogurte', [51, 4.1, 1.9, 3.0, 0.0], { unitGrams: 170 }),
+  food('queijo', [330, 22.6, 3.0, 25.2, 0.0], { unitGrams: 20 }),
+  food('queijo parmesão', [453, 35.6, 1.7, 33.5, 0.0], { density: 0.4 }),
+  food('requeijão', [257, 9.6, 2.4, 23.4, 0.0], { packageGrams: 200 }),
+  food('manteiga', [726, 0.4, 0.1, 82.4, 0.0], { density: 0.95 }),
+  food('frango', [119, 21.5, 0.0, 3.0, 0.0], { unitGrams: 150 }),
+  food('carne', [133, 21.7, 0.0, 4.5, 0.0], { unitGrams: 150 }),
+  food('carne moída', [137, 19.4, 0.0, 5.9, 0.0]),
+  food('linguiça', [296, 16.1, 0.0, 25.0, 0.0], { unitGrams: 100 }),
+  food('bacon', [460, 14.0, 1.0, 45.0, 0.0], { unitGrams: 15 }),
+  food('presunto', [94, 14.3, 2.1, 2.7, 0.0], { unitGrams: 15 }),
+  food('salsicha', [257, 12.0, 3.0, 22.0, 0.0], { unitGrams: 50 }),
+  food('peixe', [89, 16.6, 0.0, 2.0, 0.0], { unitGrams: 120 }),
+  food('atum', [166, 26.2, 0.0, 6.0, 0.0], { packageGrams: 120 }),
+  food('sardinha', [285, 15.9, 0.0, 24.0, 0.0], { packageGrams: 85 }),
+  food('camarão', [47, 10.0, 0.0, 0.5, 0.0]),
+  // Açúcares e gorduras
+  food('açúcar', [387, 0.3, 99.5, 0.0, 0.0], { density: 0.85 }),
+  food('mel', [309, 0.0, 84.0, 0.0, 0.0], { density: 1.4 }),
+  food('fermento', [90, 0.0, 43.0, 0.0, 0.0], { density: 0.9 }),
+  food('óleo', [884, 0.0, 0.0, 100.0, 0.0], { density: 0.92 }),
+  food('azeite', [884, 0.0, 0.0, 100.0, 0.0], { density: 0.92 }),
+];
@@ -0,0 +1,106 @@
+import { PantryItem } from '../types';
+import { normalizeText } from './text';
+import { matchLeadingUnit } from './units';
+import { cleanReceiptText, looksLikeReceipt } from './receipt';
+
+// Frases que a IA ou o usuário costumam colar e que não são ingredientes
+const FILLER = /^(eu\s+)?(tenho|tem|também|alguns|algumas|um pouco de|uns|umas|e)\s+|^(i\s+)?(have|some|and)\s+|^(yo\s+)?(tengo|unos|unas|algo de|y)\s+/i;
+const EXPIRY = /\s*\(?\s*(vence|validade|val\.?|caduca|exp\.?|expires|best by|use by)\s*(?:em|el|on)?\s*(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\s*\)?/i;
+// Com as palavras em inglês a data vem no formato americano (mês/dia)
+const MONTH_FIRST = /^(exp|expires|best by|use by)/i;
+const QUANTITY = /^(\d+\/\d+|\d+(?:[.,]\d+)?)\s*/;
+const MAX_NAME_LENGTH = 40;
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const parseNumber = (text: string) => {
+  if (text.includes('/')) {
+    const [num, den] = text.split('/').map(Number);
+    return den ? num / den : undefined;
+  }
+  return Number(text.replace(',', '.'));
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const toIsoDate = (day: string, month: string, year?: string) => {
+  const now = new Date();
+  const fullYear = !year ? now.getFullYear() : year.length === 2 ? 2000 + Number(year) : Number(year);
+  return `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+// Chave usada para identificar duplicatas: sem acentos, minúscula e no singular
+export const ingredientKey = (name: string) =>
+  normalizeText(name)
+    .split(' ')
+    .map(word => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word))
+    .join(' ');
+
+export const parsePantryEntry = (raw: string): PantryItem | null => {
+  let text = raw.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim();
+  let expiresAt: string | undefined;
+
+  const expiry = text.match(EXPIRY);
+  if (expiry) {
+    const [, keyword, first, second, year] = expiry;
+    expiresAt = MONTH_FIRST.test(keyword) ? toIsoDate(second, first, year) : toIsoDate(first, second, year);
+    text = text.replace(EXPIRY, '').trim();
+  }
+
+  let quantity: number | undefined;
+  let unit: string | undefined;
+  const amount = text.match(QUANTITY);
+  if (amount) {
+    quantity = parseNumber(amount[1]);
+    text = text.slice(amount[0].length);
+    const leadingUnit = matchLeadingUnit(text);
+    if (leadingUnit) {
+      unit = leadingUnit.unit;
+      text = leadingUnit.rest;
+    } else {
+      text = text.replace(/^(?:de|of)\s+/i, '');
+    }
+  }
+
+  const name = text.replace(FILLER, '').replace(/[.;:!?]+$/, '').replace(/\s+/g, ' ').trim();
+  if (!name || name.length > MAX_NAME_LENGTH || !/[a-zà-ú]/i.test(name)) return null;
+
+  return {
+    id: createId(),
+    name: capitalize(name.toLowerCase()),
+    ...(quantity !== undefined && !Number.isNaN(quantity) ? { quantity } : {}),
+    ...(unit ? { unit } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+  };
+};
+
+// Aceita lista solta ou nota fiscal colada (preços, códigos e totais são descartados)
+export const parsePantryText = (text: string): PantryItem[] =>
+  (looksLikeReceipt(text) ? cleanReceiptText(text) : text)
+    .split(/[,;\n]|\s+(?:e|and|y)\s+/)
+    .map(parsePantryEntry)
+    .filter((item): item is PantryItem => item !== null);
+
+// Junta itens novos à despensa sem duplicar: soma quantidades de mesma unidade e mantém a validade mais próxima
+export const mergePantryItems = (current: PantryItem[], incoming: PantryItem[]): PantryItem[] => {
+  const result = [...current];
+  for (const item of incoming) {
+    const index = result.findIndex(existing => ingredientKey(existing.name) === ingredientKey(item.name));
+    if (index === -1) {
+      result.push(item);
+      continue;
+    }
+    const existing = result[index];
+    const merged: PantryItem = { ...item, ...existing };
+    if (existing.quantity !== undefined && item.quantity !== undefined && existing.unit === item.unit) {
+      merged.quantity = existing.quantity + item.quantity;
+    }
+    const expiresAt = [existing.expiresAt, item.expiresAt].filter(Boolean).sort()[0];
+    if (expiresAt) merged.expiresAt = expiresAt;
+    result[index] = merged;
+  }
+  return result;
+};
@@ -0,0 +1,84 @@
+import { Recipe, RecipeIngredient } from '../types';
+import { toRecipeIngredient } from './recipeValidation';
+
+// Extrai o que já dá para mostrar de um JSON de receita ainda incompleto (resposta em streaming)
+
+const STRING_BODY = '((?:[^"\\\\]|\\\\.)*)';
+
+const decode = (body: string) => {
+  try {
+    return JSON.parse(`"${body.replace(/\\+$/, match => (match.length % 2 ? match.slice(0, -1) : match))}"`) as string;
+  } catch {
+    return body;
+  }
+};
+
+const readString = (text: string, key: string) => {
+  const match = text.match(new RegExp(`"${key}"\\s*:\\s*"${STRING_BODY}`));
+  return match ? decode(match[1]) : undefined;
+};
+
+// Só devolve itens completos (com aspas de fechamento) para não exibir passos cortados
+const readStringArray = (text: string, key: string) => {
+  const match = text.match(new RegExp(`"${key}"\\s*:\\s*\\[((?:\\s*"(?:[^"\\\\]|\\\\.)*"\\s*,?)*)`));
+  if (!match) return undefined;
+  return [...match[1].matchAll(new RegExp(`"${STRING_BODY}"`, 'g'))].map(item => decode(item[1]));
+};
+
+const readNumber = (text: string, key: string) => {
+  const match = text.match(new RegExp(`"${key}"\\s*:\\s*(\\d+)\\s*[,}]`));
+  return match ? Number(match[1]) : undefined;
+};
+
+// Percorre a lista de objetos respeitando strings e devolve só os objetos já fechados
+const readObjectArray = (text: string, key: string) => {
+  const start = text.match(new RegExp(`"${key}"\\s*:\\s*\\[`));
+  if (!start || start.index === undefined) return undefined;
+
+  const objects: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let objectStart = -1;
+  for (let i = start.index + start[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth++ === 0) objectStart = i;
+    } else if (char === '}') {
+      if (--depth === 0) {
+        try {
+          objects.push(JSON.parse(text.slice(objectStart, i + 1)));
+        } catch {
+          // objeto malformado: a validação final acusa o erro
+        }
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+  return objects;
+};
+
+export const parsePartialRecipe = (text: string): Partial<Recipe> => {
+  const partial: Partial<Recipe> = {};
+  const name = readString(text, 'name');
+  const totalTime = readString(text, 'totalTime');
+  const servings = readNumber(text, 'servings');
+  const ingredients = readObjectArray(text, 'ingredients')
+    ?.map(toRecipeIngredient)
+    .filter((ingredient): ingredient is RecipeIngredient => ingredient !== null);
+  const instructions = readStringArray(text, 'instructions');
+  const tip = readString(text, 'tip');
+
+  if (name) partial.name = name;
+  if (totalTime) partial.totalTime = totalTime;
+  if (servings) partial.servings = servings;
+  if (ingredients) partial.ingredients = ingredients;
+  if (instructions) partial.instructions = instructions;
+  if (tip) partial.tip = tip;
+  return partial;
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe } from '../types';
+import { EMPTY_PROFILE, checkRecipeAgainstProfile } from './profile';
+
+const recipeWith = (...items: string[]): Recipe => ({
+  name: 'Teste',
+  totalTime: '30 minutos',
+  servings: 2,
+  ingredients: items.map(item => ({ item })),
+  instructions: ['Misture tudo.'],
+});
+
+const glutenWarnings = (recipe: Recipe) =>
+  checkRecipeAgainstProfile(recipe, { ...EMPTY_PROFILE, allergens: ['Glúten'], diets: ['Sem Glúten'] });
+
+describe('conferência da receita com o perfil', () => {
+  it('aponta glúten em massa e pão comuns', () => {
+    expect(glutenWarnings(recipeWith('Massa de pastel', 'Pão francês', 'Sal'))).toEqual([
+      { type: 'allergen', subject: 'Glúten', items: ['Massa de pastel', 'Pão francês'] },
+      { type: 'diet', subject: 'Sem Glúten', items: ['Massa de pastel', 'Pão francês'] },
+    ]);
+  });
+
+  it('não aponta glúten em massa de mandioca, massa de tapioca nem pão de queijo', () => {
+    expect(glutenWarnings(recipeWith('Massa de mandioca', 'massa de tapioca', 'Pão de queijo', 'Massa de tomate'))).toEqual([]);
+  });
+
+  it('ainda aponta a massa comum quando a exceção aparece no mesmo item', () => {
+    const [warning] = glutenWarnings(recipeWith('Massa de mandioca ou massa pronta'));
+    expect(warning).toMatchObject({ type: 'allergen', items: ['Massa de mandioca ou massa pronta'] });
+  });
+});
@@ -0,0 +1,146 @@
+import { DietaryProfile, Recipe } from '../types';
+import { totalMinutes } from './durations';
+import { normalizeText } from './text';
+
+export const DIET_OPTIONS = ['Lanche Rápido', 'Saudável', 'Vegano', 'Vegetariano', 'Low Carb', 'Sem Glúten', 'Sem Lactose'];
+export const ALLERGEN_OPTIONS = ['Leite', 'Ovo', 'Glúten', 'Amendoim', 'Castanhas', 'Soja', 'Peixe', 'Frutos do mar'];
+export const EQUIPMENT_OPTIONS = ['Fogão', 'Forno', 'Micro-ondas', 'Airfryer', 'Liquidificador', 'Panela de pressão'];
+
+export const EMPTY_PROFILE: DietaryProfile = { diets: [], allergens: [], dislikes: [], equipment: [] };
+
+// Palavras (sem acento) que denunciam cada restrição nos ingredientes, em português, inglês e espanhol
+const DAIRY = [
+  'leite', 'queijo', 'manteiga', 'creme de leite', 'iogurte', 'requeijao', 'nata', 'mussarela', 'parmesao', 'leite condensado',
+  'milk', 'cheese', 'butter', 'cream', 'yogurt', 'mozzarella', 'parmesan',
+  'leche', 'queso', 'mantequilla', 'crema', 'yogur',
+];
+const GLUTEN = [
+  'trigo', 'farinha de trigo', 'pao', 'macarrao', 'massa', 'cevada', 'centeio', 'biscoito', 'torrada', 'cuscuz marroquino',
+  'wheat', 'flour', 'bread', 'pasta', 'noodles', 'barley', 'rye', 'cracker', 'couscous',
+  'harina de trigo', 'pan', 'fideos', 'cebada', 'centeno', 'galleta',
+];
+// Expressões que contêm uma palavra da lista mas não têm o ingrediente (ex.: massa de mandioca não é trigo)
+const KEYWORD_EXCEPTIONS: Record<string, string[]> = {
+  massa: ['massa de mandioca', 'massa de tapioca', 'massa de milho', 'massa de tomate', 'massa de pimentao'],
+  pao: ['pao de queijo'],
+};
+const MEAT = [
+  'carne', 'frango', 'bacon', 'presunto', 'linguica', 'salsicha', 'calabresa', 'peito de peru', 'porco', 'file', 'costela', 'patinho', 'alcatra', 'acem',
+  'beef', 'chicken', 'ham', 'sausage', 'pork', 'turkey', 'steak', 'ribs',
+  'pollo', 'jamon', 'salchicha', 'chorizo', 'cerdo', 'pavo',
+];
+const FISH = ['peixe', 'atum', 'sardinha', 'salmao', 'tilapia', 'bacalhau', 'merluza', 'fish', 'tuna', 'sardine', 'salmon', 'cod', 'pescado', 'atun'];
+const SEAFOOD = [
+  'camarao', 'lula', 'polvo', 'marisco', 'mexilhao', 'lagosta', 'caranguejo', 'siri',
+  'shrimp', 'prawn', 'squid', 'octopus', 'mussel', 'lobster', 'crab', 'camaron', 'gamba', 'calamar', 'pulpo', 'mejillon', 'langosta', 'cangrejo',
+];
+const EGG = ['ovo', 'ovos', 'gema', 'clara', 'egg', 'eggs', 'yolk', 'huevo', 'huevos', 'yema'];
+
+const ALLERGEN_KEYWORDS: Record<string, string[]> = {
+  Leite: DAIRY,
+  Ovo: EGG,
+  'Glúten': GLUTEN,
+  Amendoim: ['amendoim', 'pacoca', 'peanut', 'peanuts', 'cacahuete', 'mani'],
+  Castanhas: [
+    'castanha', 'castanhas', 'nozes', 'noz', 'amendoa', 'amendoas', 'avela', 'pistache', 'macadamia',
+    'nut', 'nuts', 'walnut', 'almond', 'hazelnut', 'cashew', 'pistachio', 'nuez', 'nueces', 'almendra', 'avellana', 'anacardo',
+  ],
+  Soja: ['soja', 'shoyu', 'tofu', 'misso', 'soy', 'soy sauce', 'miso'],
+  Peixe: FISH,
+  'Frutos do mar': SEAFOOD,
+};
+
+const DIET_KEYWORDS: Record<string, string[]> = {
+  Vegano: [...MEAT, ...FISH, ...SEAFOOD, ...EGG, ...DAIRY, 'mel', 'honey', 'miel'],
+  Vegetariano: [...MEAT, ...FISH, ...SEAFOOD],
+  'Low Carb': [
+    'arroz', 'macarrao', 'pao', 'batata', 'acucar', 'farinha', 'mandioca', 'tapioca',
+    'rice', 'pasta', 'bread', 'potato', 'sugar', 'flour', 'pan', 'patata', 'papa', 'azucar', 'harina', 'yuca',
+  ],
+  'Sem Glúten': GLUTEN,
+  'Sem Lactose': DAIRY,
+};
+
+// Termos nas instruções que indicam o uso de cada equipamento
+const EQUIPMENT_KEYWORDS: Record<string, string[]> = {
+  'Fogão': [
+    'fogo', 'fogao', 'frigideira', 'panela', 'refogue', 'ferva', 'frite',
+    'stove', 'skillet', 'saute', 'boil', 'fry', 'fuego', 'sarten', 'olla', 'sofria', 'hierva', 'freir',
+  ],
+  Forno: ['forno', 'asse', 'assar', 'gratine', 'gratinar', 'oven', 'bake', 'roast', 'horno', 'hornee', 'hornear'],
+  'Micro-ondas': ['micro-ondas', 'microondas', 'microwave'],
+  Airfryer: ['airfryer', 'air fryer', 'fritadeira eletrica', 'freidora de aire'],
+  Liquidificador: ['liquidificador', 'blender', 'licuadora'],
+  'Panela de pressão': ['panela de pressao', 'pressure cooker', 'olla a presion', 'olla express'],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const wordPattern = (phrase: string) => new RegExp(`(^|[^a-z])${escapeRegExp(normalizeText(phrase))}($|[^a-z])`, 'g');
+
+const mentions = (text: string, keywords: string[]) => {
+  const normalized = normalizeText(text);
+  return keywords.filter(keyword => {
+    const remaining = (KEYWORD_EXCEPTIONS[normalizeText(keyword)] ?? [])
+      .reduce((rest, exception) => rest.replace(wordPattern(exception), ' '), normalized);
+    return wordPattern(keyword).test(remaining);
+  });
+};
+
+// Regras do perfil no formato que o prompt de sistema espera
+export const describeProfileForPrompt = (profile: DietaryProfile) => {
+  const lines: string[] = [];
+  if (profile.diets.length) lines.push(`Dietas/preferências (respeite todas): ${profile.diets.join(', ')}.`);
+  if (profile.allergens.length) lines.push(`Alergias: ${profile.allergens.join(', ')}. Nunca use esses ingredientes nem derivados, mesmo que estejam na lista.`);
+  if (profile.dislikes.length) lines.push(`A pessoa não gosta de: ${profile.dislikes.join(', ')}. Evite esses ingredientes.`);
+  if (profile.equipment.length) lines.push(`Equipamentos disponíveis: ${profile.equipment.join(', ')}. Não use nenhum outro equipamento.`);
+  if (profile.maxMinutes) lines.push(`Tempo total máximo: ${profile.maxMinutes} minutos.`);
+  return lines;
+};
+
+export const summarizeProfile = (profile: DietaryProfile) => profile.diets.join(', ');
+
+// Conflito entre a receita e o perfil; o texto exibido sai do catálogo do idioma (ver i18n/)
+export type ProfileWarning =
+  | { type: 'allergen' | 'diet'; subject: string; items: string[] }
+  | { type: 'dislike' | 'equipment'; subject: string }
+  | { type: 'time'; totalTime: string; maxMinutes: number };
+
+// Confere localmente a receita devolvida contra o perfil e lista os conflitos encontrados
+export const checkRecipeAgainstProfile = (recipe: Recipe, profile: DietaryProfile): ProfileWarning[] => {
+  const warnings: ProfileWarning[] = [];
+  const items = recipe.ingredients.map(ingredient => ingredient.item);
+  const steps = recipe.instructions.join(' ');
+  const itemsMatching = (keywords: string[]) => items.filter(item => mentions(item, keywords).length);
+
+  profile.allergens.forEach(allergen => {
+    const found = itemsMatching(ALLERGEN_KEYWORDS[allergen] ?? [allergen]);
+    if (found.length) warnings.push({ type: 'allergen', subject: allergen, items: found });
+  });
+
+  profile.diets.forEach(diet => {
+    const keywords = DIET_KEYWORDS[diet];
+    if (!keywords) return;
+    const found = itemsMatching(keywords);
+    if (found.length) warnings.push({ type: 'diet', subject: diet, items: found });
+  });
+
+  profile.dislikes.forEach(dislike => {
+    if (itemsMatching([dislike]).length) warnings.push({ type: 'dislike', subject: dislike });
+  });
+
+  if (profile.equipment.length) {
+    Object.entries(EQUIPMENT_KEYWORDS)
+      .filter(([equipment]) => !profile.equipment.includes(equipment))
+      .forEach(([equipment, keywords]) => {
+        if (mentions(steps, keywords).length) warnings.push({ type: 'equipment', subject: equipment });
+      });
+  }
+
+  if (profile.maxMinutes) {
+    const minutes = totalMinutes(recipe.totalTime);
+    if (minutes > profile.maxMinutes) warnings.push({ type: 'time', totalTime: recipe.totalTime, maxMinutes: profile.maxMinutes });
+  }
+
+  return warnings;
+};
@@ -0,0 +1,51 @@
+// Lado maior usado na leitura; QR codes de links continuam legíveis e o jsQR fica rápido
+const MAX_QR_SIZE = 800;
+
+interface BarcodeDetectorLike {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+let nativeDetector: BarcodeDetectorLike | null | undefined;
+
+// BarcodeDetector só existe em alguns navegadores (Chrome no Android, Safari recente)
+const getNativeDetector = () => {
+  if (nativeDetector !== undefined) return nativeDetector;
+  const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  try {
+    nativeDetector = Detector ? new Detector({ formats: ['qr_code'] }) : null;
+  } catch {
+    nativeDetector = null;
+  }
+  return nativeDetector;
+};
+
+const detectWithJsQr = async (source: CanvasImageSource, width: number, height: number) => {
+  const { default: jsQR } = await import('jsqr');
+  const scale = Math.min(1, MAX_QR_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return jsQR(data, canvas.width, canvas.height)?.data || null;
+};
+
+// Texto do QR code no quadro do vídeo ou na foto; null quando não há nenhum
+export const detectQrCode = async (source: CanvasImageSource, width: number, height: number): Promise<string | null> => {
+  if (!width || !height) return null;
+  const detector = getNativeDetector();
+  if (detector) {
+    try {
+      const [code] = await detector.detect(source);
+      return code?.rawValue || null;
+    } catch {
+      // Formato não suportado neste aparelho: cai para o jsQR
+      nativeDetector = null;
+    }
+  }
+  return detectWithJsQr(source, width, height);
+};
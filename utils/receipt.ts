@@ -0,0 +1,66 @@
+import { normalizeText } from './text';
+
+// Preço no fim da linha ("9,98", "R$ 4.99", "3.49 F" com a letra do imposto)
+const TRAILING_PRICE = /(?:R\$|\$|€)?\s*\d+[.,]\d{2}\s*[A-Z]?\s*$/;
+// "2 UN X 4,99", "0.59 lb @ 0.59/lb"
+const MULTIPLIER = /\d+(?:[.,]\d+)?\s*(?:un|und|kg|g|lb|ea|pc)?\s*[x*@]\s*(?:R\$|\$|€)?\s*\d+[.,]\d{2,3}(?:\s*\/\s*[a-z]+)?/gi;
+const PRICE = /(?:R\$|\$|€)\s*\d+[.,]\d{2}|\b\d+[.,]\d{2}\b/g;
+// Itens pesados: "0,850 KG X 7,99" vira a quantidade comprada
+const WEIGHED = /(\d+(?:[.,]\d+)?)\s*(kg|lb)\s*[x*@]/i;
+// Código do item e código de barras no começo da linha
+const LEADING_CODES = /^(?:\d+\s+)+/;
+const COUNT_UNIT = /\s+\d*\s*\b(?:un|und|unid|pc|pcs|ea)\b\.?/gi;
+// "LEITE INTEGRAL 1L" → "1 L LEITE INTEGRAL", no formato que parsePantryEntry lê
+const TRAILING_SIZE = /^(.+?)\s+(\d+(?:[.,]\d+)?)\s*(kg|g|ml|l|lb|oz)$/i;
+
+// Linhas de cabeçalho, pagamento e impostos da nota (português, inglês e espanhol)
+const SKIPPED = /\b(total|subtotal|troco|cpf|cnpj|pagamento|desconto|dinheiro|cartao|credito|debito|valor|qtd|codigo|descricao|cupom|nfc|tributos|tax|change|cash|card|visa|balance|savings|cambio|efectivo|tarjeta|iva)\b/;
+
+const MIN_PRICED_LINES = 2;
+
+// Nota fiscal colada ou digitada: várias linhas terminando em preço
+export const looksLikeReceipt = (text: string) =>
+  text.split('\n').filter(line => TRAILING_PRICE.test(line.trim())).length >= MIN_PRICED_LINES;
+
+const cleanLine = (line: string) => {
+  const weighed = line.match(WEIGHED);
+  let text = line
+    .replace(MULTIPLIER, ' ')
+    .replace(PRICE, ' ')
+    .replace(/\s+[A-Z]$/, '')
+    .trim()
+    .replace(LEADING_CODES, '')
+    .replace(COUNT_UNIT, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  // Vírgula decimal vira ponto: parsePantryText separa os itens por vírgula
+  if (weighed) return `${weighed[1].replace(',', '.')} ${weighed[2]} ${text.replace(/\s+(?:kg|lb)$/i, '')}`;
+  const size = text.match(TRAILING_SIZE);
+  if (size) text = `${size[2].replace(',', '.')} ${size[3]} ${size[1]}`;
+  return text;
+};
+
+const hasName = (text: string) => /[a-zà-ú]{2}/i.test(text);
+
+// Deixa só os produtos da nota, um por linha; o resto fica com parsePantryText.
+// Só entram linhas com preço: nome da loja, endereço e cabeçalhos ficam de fora
+export const cleanReceiptText = (text: string) => {
+  const products: string[] = [];
+  // Algumas notas põem o produto em uma linha e "2 UN X 4,99  9,98" na seguinte
+  let pending: string | null = null;
+  for (const line of text.split('\n').map(line => line.trim())) {
+    if (!line || SKIPPED.test(normalizeText(line))) {
+      pending = null;
+      continue;
+    }
+    if (!TRAILING_PRICE.test(line)) {
+      pending = line;
+      continue;
+    }
+    const product = cleanLine(line);
+    if (hasName(product)) products.push(product);
+    else if (pending) products.push(cleanLine(`${pending} ${line}`));
+    pending = null;
+  }
+  return products.filter(hasName).join('\n');
+};
@@ -0,0 +1,122 @@
+import { loadImageElement } from './image';
+import { RecipeDocument } from './recipeExport';
+
+// Formato retrato (4:5), o que as redes sociais exibem sem cortar
+const WIDTH = 1080;
+const HEIGHT = 1350;
+const PHOTO_HEIGHT = 720;
+const PADDING = 72;
+const MAX_INGREDIENT_LINES = 8;
+const FONT = "'Plus Jakarta Sans', system-ui, sans-serif";
+const ORANGE = '#f97316';
+
+// Quebra o texto em linhas que cabem em maxWidth; a última ganha reticências se sobrar texto
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+  }
+  if (line) lines.push(line);
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = kept[maxLines - 1];
+  while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+  kept[maxLines - 1] = `${last.trimEnd()}…`;
+  return kept;
+};
+
+// Desenha a foto cobrindo a área inteira, cortando o excesso (como object-fit: cover)
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const loadPhoto = async (src?: string) => {
+  if (!src) return null;
+  try {
+    return await loadImageElement(src);
+  } catch {
+    return null;
+  }
+};
+
+// Card da receita em PNG: foto da IA, título, tempo/rendimento e ingredientes
+export const renderRecipeCard = async (doc: RecipeDocument): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas indisponível');
+
+  // Garante a fonte do app antes de medir o texto
+  await document.fonts?.load(`700 64px ${FONT}`).catch(() => undefined);
+
+  ctx.fillStyle = '#faf9f6';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  const photo = await loadPhoto(doc.imageUrl);
+  if (photo) {
+    drawCover(ctx, photo, WIDTH, PHOTO_HEIGHT);
+  } else {
+    const background = ctx.createLinearGradient(0, 0, WIDTH, PHOTO_HEIGHT);
+    background.addColorStop(0, '#fdba74');
+    background.addColorStop(1, ORANGE);
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, WIDTH, PHOTO_HEIGHT);
+  }
+
+  const shade = ctx.createLinearGradient(0, PHOTO_HEIGHT * 0.35, 0, PHOTO_HEIGHT);
+  shade.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  shade.addColorStop(1, 'rgba(0, 0, 0, 0.75)');
+  ctx.fillStyle = shade;
+  ctx.fillRect(0, 0, WIDTH, PHOTO_HEIGHT);
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `700 64px ${FONT}`;
+  const titleLines = wrapText(ctx, doc.title, WIDTH - PADDING * 2, 3);
+  titleLines.forEach((line, i) => {
+    ctx.fillText(line, PADDING, PHOTO_HEIGHT - PADDING + (i - titleLines.length + 1) * 76);
+  });
+
+  let y = PHOTO_HEIGHT + 80;
+  ctx.fillStyle = ORANGE;
+  ctx.font = `700 36px ${FONT}`;
+  ctx.fillText(wrapText(ctx, doc.meta, WIDTH - PADDING * 2, 1)[0], PADDING, y);
+
+  y += 72;
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `700 26px ${FONT}`;
+  ctx.fillText(doc.ingredientsTitle.toUpperCase(), PADDING, y);
+
+  ctx.fillStyle = '#374151';
+  ctx.font = `500 32px ${FONT}`;
+  const shown = doc.ingredients.slice(0, MAX_INGREDIENT_LINES);
+  const hidden = doc.ingredients.length - shown.length;
+  // Duas colunas para caber a lista inteira na maioria das receitas
+  const columnWidth = (WIDTH - PADDING * 2 - 40) / 2;
+  shown.forEach((ingredient, i) => {
+    const column = i % 2;
+    const row = Math.floor(i / 2);
+    const text = i === shown.length - 1 && hidden > 0 ? `+${hidden + 1}` : `• ${ingredient}`;
+    ctx.fillText(wrapText(ctx, text, columnWidth, 1)[0], PADDING + column * (columnWidth + 40), y + 56 + row * 48);
+  });
+
+  ctx.fillStyle = '#d1d5db';
+  ctx.font = `700 24px ${FONT}`;
+  ctx.fillText(doc.footer.toUpperCase(), PADDING, HEIGHT - 56);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Falha ao gerar a imagem'))), 'image/png');
+  });
+};
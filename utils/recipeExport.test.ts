@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe } from '../types';
+import { createI18n } from '../i18n';
+import { toRecipeMarkdown, toSchemaRecipe } from './recipeExport';
+import { encodeRecipeLink, parseRecipeJson, parseRecipeMarkdown, readRecipeLink } from './recipeImport';
+
+const RECIPE: Recipe = {
+  name: 'Panqueca de Banana',
+  servings: 2,
+  ingredients: [
+    { item: 'banana', quantity: 2, unit: 'un' },
+    { item: 'farinha de trigo', quantity: 0.5, unit: 'xícara' },
+    { item: 'leite', quantity: 200, unit: 'ml' },
+    { item: 'canela', unit: 'pitada' },
+  ],
+  instructions: ['Amasse as bananas.', 'Misture tudo.', 'Doure por 3 minutos de cada lado.'],
+  totalTime: '20 minutos',
+  tip: 'Sirva com mel.',
+  nutrition: { perServing: { calories: 250, protein: 7, carbs: 45, fat: 5, fiber: 3 }, estimatedByModel: [], missing: [] },
+};
+
+const ptBR = createI18n('pt-BR', 'metric');
+
+// "un" fica implícita no texto ("2 banana"), então volta sem unidade
+const IMPORTED_INGREDIENTS = RECIPE.ingredients.map(({ unit, ...ingredient }) => (unit === 'un' ? ingredient : { ...ingredient, unit }));
+
+describe('exportação em Markdown', () => {
+  it('gera o texto de copiar/compartilhar com as seções marcadas', () => {
+    expect(toRecipeMarkdown(RECIPE, ptBR)).toBe([
+      '# 🍳 Panqueca de Banana',
+      '',
+      '⏱ **Tempo total:** 20 minutos',
+      '🍽 **Rende:** 2 porções',
+      '',
+      '## 🛒 Ingredientes',
+      '- 2 banana',
+      '- ½ xícara de farinha de trigo',
+      '- 200 ml de leite',
+      '- canela (pitada)',
+      '',
+      '## 👨‍🍳 Modo de Preparo',
+      '1. Amasse as bananas.',
+      '2. Misture tudo.',
+      '3. Doure por 3 minutos de cada lado.',
+      '',
+      '> 💡 **Dica do Chef:** Sirva com mel.',
+      '',
+      '## 📊 Nutrição por porção (estimativa)',
+      '- Calorias: 250 kcal',
+      '- Proteínas: 7 g',
+      '- Carboidratos: 45 g',
+      '- Gorduras: 5 g',
+      '- Fibras: 3 g',
+      '',
+      '---',
+      '*Gerado por O Que Tem Aí?*',
+    ].join('\n'));
+  });
+
+  it('escreve no idioma e nas medidas escolhidas', () => {
+    const markdown = toRecipeMarkdown(RECIPE, createI18n('en', 'us'));
+    expect(markdown).toContain('- ¾ cup leite');
+    expect(markdown).toContain('- canela (pinch)');
+    expect(markdown).toContain('## 📊 Nutrition per serving (estimate)');
+  });
+
+  it('volta para a mesma receita quando o Markdown é importado', () => {
+    const { nutrition, ...recipe } = RECIPE;
+    expect(parseRecipeMarkdown(toRecipeMarkdown(RECIPE, ptBR))).toEqual({ ...recipe, ingredients: IMPORTED_INGREDIENTS });
+  });
+});
+
+describe('exportação em JSON e link', () => {
+  it('importa o schema.org exportado pelo app', () => {
+    const imported = parseRecipeJson(JSON.stringify(toSchemaRecipe(RECIPE, ptBR)));
+    expect(imported.name).toBe(RECIPE.name);
+    expect(imported.servings).toBe(2);
+    expect(imported.totalTime).toBe('20 min');
+    expect(imported.ingredients).toEqual(IMPORTED_INGREDIENTS);
+    expect(imported.instructions).toEqual(RECIPE.instructions);
+  });
+
+  it('descarta fotos externas e campos desconhecidos ao importar', () => {
+    const { nutrition, ...recipe } = RECIPE;
+    const remote = { ...recipe, imageUrl: 'https://rastreio.example/foto.jpg', tracker: 'x' };
+    expect(parseRecipeJson(JSON.stringify(remote))).toEqual(recipe);
+    const schema = { ...toSchemaRecipe(RECIPE, ptBR), image: 'https://rastreio.example/foto.jpg' };
+    expect(parseRecipeJson(JSON.stringify(schema)).imageUrl).toBeUndefined();
+    const embedded = { ...remote, imageUrl: 'data:image/png;base64,AAAA' };
+    expect(parseRecipeJson(JSON.stringify(embedded)).imageUrl).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('leva a receita no hash do link, sem foto nem nutrição', async () => {
+    const link = await encodeRecipeLink({ ...RECIPE, imageUrl: 'data:image/png;base64,AAAA' }, 'https://app.example/');
+    expect(link.startsWith('https://app.example/#recipe=')).toBe(true);
+    const { nutrition, ...recipe } = RECIPE;
+    expect(await readRecipeLink(link)).toEqual(recipe);
+    expect(await readRecipeLink('https://app.example/')).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import { Nutrients, Recipe } from '../types';
+import type { I18n } from '../i18n';
+import { totalMinutes } from './durations';
+import { NUTRIENT_FIELDS, formatNutrient } from './nutrition';
+import { normalizeText } from './text';
+import { formatIngredient } from './units';
+
+// Textos já traduzidos e formatados que o card e o PDF desenham
+export interface RecipeDocument {
+  title: string;
+  // Tempo e rendimento em uma linha: "35 minutos · 2 porções"
+  meta: string;
+  imageUrl?: string;
+  ingredientsTitle: string;
+  ingredients: string[];
+  methodTitle: string;
+  steps: string[];
+  tip?: { title: string; text: string };
+  nutrition?: { title: string; rows: string[] };
+  footer: string;
+}
+
+export const buildRecipeDocument = (recipe: Recipe, { t, format, locale }: I18n): RecipeDocument => ({
+  title: recipe.name,
+  meta: `${recipe.totalTime} · ${t.common.servings(recipe.servings)}`,
+  imageUrl: recipe.imageUrl,
+  ingredientsTitle: t.common.ingredients,
+  ingredients: recipe.ingredients.map(ing => formatIngredient(ing, format)),
+  methodTitle: t.common.method,
+  steps: recipe.instructions,
+  tip: recipe.tip ? { title: t.common.chefTip, text: recipe.tip } : undefined,
+  nutrition: recipe.nutrition && {
+    title: t.markdown.nutrition,
+    rows: NUTRIENT_FIELDS.map(({ key, unit }) => `${t.nutrition.fields[key]}: ${formatNutrient(recipe.nutrition!.perServing[key], unit, locale)}`),
+  },
+  footer: t.markdown.footer,
+});
+
+// Texto de "Copiar" e "Compartilhar"; os emojis marcam as partes que parseRecipeMarkdown lê de volta
+export const toRecipeMarkdown = (recipe: Recipe, { t, format, locale }: I18n) => {
+  const ingredients = recipe.ingredients.map(ing => `- ${formatIngredient(ing, format)}`).join('\n');
+  const instructions = recipe.instructions.map((step, i) => `${i + 1}. ${step}`).join('\n');
+  const tipSection = recipe.tip ? `\n\n> 💡 **${t.common.chefTip}:** ${recipe.tip}` : '';
+  const { nutrition } = recipe;
+  const nutritionSection = nutrition
+    ? `\n\n## 📊 ${t.markdown.nutrition}\n${NUTRIENT_FIELDS.map(({ key, unit }) => `- ${t.nutrition.fields[key]}: ${formatNutrient(nutrition.perServing[key], unit, locale)}`).join('\n')}`
+    : '';
+
+  return `# 🍳 ${recipe.name}\n\n⏱ **${t.markdown.totalTime}:** ${recipe.totalTime}\n🍽 **${t.markdown.yields}:** ${t.common.servings(recipe.servings)}\n\n## 🛒 ${t.common.ingredients}\n${ingredients}\n\n## 👨‍🍳 ${t.common.method}\n${instructions}${tipSection}${nutritionSection}\n\n---\n*${t.markdown.footer}*`;
+};
+
+const SCHEMA_NUTRIENTS: Record<keyof Nutrients, string> = {
+  calories: 'calories',
+  protein: 'proteinContent',
+  carbs: 'carbohydrateContent',
+  fat: 'fatContent',
+  fiber: 'fiberContent',
+};
+
+// "1h30" → "PT1H30M"; undefined quando o texto não tem uma duração reconhecível
+export const toIsoDuration = (totalTime: string) => {
+  const minutes = Math.round(totalMinutes(totalTime));
+  if (!minutes) return undefined;
+  const hours = Math.floor(minutes / 60);
+  return `PT${hours ? `${hours}H` : ''}${minutes % 60 ? `${minutes % 60}M` : ''}`;
+};
+
+// schema.org/Recipe, o formato que gerenciadores de receitas e buscadores entendem
+export const toSchemaRecipe = (recipe: Recipe, { format }: I18n) => {
+  const totalTime = toIsoDuration(recipe.totalTime);
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.name,
+    inLanguage: format.language,
+    ...(recipe.imageUrl ? { image: recipe.imageUrl } : {}),
+    ...(totalTime ? { totalTime } : {}),
+    recipeYield: String(recipe.servings),
+    recipeIngredient: recipe.ingredients.map(ing => formatIngredient(ing, format)),
+    recipeInstructions: recipe.instructions.map((text, i) => ({ '@type': 'HowToStep', position: i + 1, text })),
+    ...(recipe.tip ? { description: recipe.tip } : {}),
+    ...(recipe.nutrition
+      ? {
+        nutrition: {
+          '@type': 'NutritionInformation',
+          servingSize: '1',
+          ...Object.fromEntries(
+            NUTRIENT_FIELDS.map(({ key, unit }) => [SCHEMA_NUTRIENTS[key], `${recipe.nutrition!.perServing[key]} ${unit}`])
+          ),
+        },
+      }
+      : {}),
+  };
+};
+
+export const recipeFileName = (recipe: Recipe, extension: string) =>
+  `${normalizeText(recipe.name).replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'receita'}.${extension}`;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // O download começa de forma assíncrona; revogar na hora cancelaria em alguns navegadores
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Compartilha o arquivo pelo menu nativo quando o navegador aceita arquivos; senão baixa
+export const shareOrDownload = async (blob: Blob, fileName: string, title: string) => {
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title });
+    return;
+  }
+  downloadBlob(blob, fileName);
+};
@@ -0,0 +1,195 @@
+import { Recipe, RecipeIngredient } from '../types';
+import { RecipeValidationError, isEmbeddedImage, validateRecipe } from './recipeValidation';
+import { knownUnit, matchLeadingUnit } from './units';
+
+// Parâmetro do hash nos links compartilhados; o hash nunca é enviado ao servidor
+const LINK_PARAM = 'recipe';
+const MISSING_TIME = '—';
+
+const UNICODE_FRACTIONS: Record<string, number> = { '¼': 1 / 4, '⅓': 1 / 3, '½': 1 / 2, '⅔': 2 / 3, '¾': 3 / 4 };
+// "2", "1,5", "1/2", "½", "1 ½" (formato de formatQuantity)
+const QUANTITY = /^(?:(\d+\/\d+)|(\d+(?:[.,]\d+)?)?\s*([¼⅓½⅔¾])?)\s*/;
+// "sal (pitada)": item sem quantidade, como formatIngredient escreve
+const UNIT_ONLY = /^(.+?)\s*\(([^()]+)\)$/;
+
+const parseAmount = (match: RegExpMatchArray) => {
+  const [, fraction, whole, glyph] = match;
+  if (fraction) {
+    const [num, den] = fraction.split('/').map(Number);
+    return den ? num / den : undefined;
+  }
+  if (!whole && !glyph) return undefined;
+  return (whole ? Number(whole.replace(',', '.')) : 0) + (glyph ? UNICODE_FRACTIONS[glyph] : 0);
+};
+
+// Lê uma linha de ingrediente escrita por formatIngredient (ou por outro site) de volta para o formato da receita
+export const parseIngredientText = (text: string): RecipeIngredient => {
+  const line = text.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').replace(/\s+/g, ' ').trim();
+  const unitOnly = line.match(UNIT_ONLY);
+  if (unitOnly && knownUnit(unitOnly[2])) return { item: unitOnly[1], unit: knownUnit(unitOnly[2]) };
+
+  const amount = line.match(QUANTITY)!;
+  const quantity = parseAmount(amount);
+  if (quantity === undefined || !(quantity > 0)) return { item: line };
+
+  const rest = line.slice(amount[0].length);
+  const leadingUnit = matchLeadingUnit(rest);
+  if (leadingUnit) return { item: leadingUnit.rest, quantity, unit: leadingUnit.unit };
+  return { item: rest.replace(/^(?:de|of)\s+/i, '') || line, quantity };
+};
+
+const stripHtml = (text: string) => text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const hasType = (node: Record<string, unknown>, type: string) =>
+  node['@type'] === type || (Array.isArray(node['@type']) && node['@type'].includes(type));
+
+// O JSON-LD de sites costuma trazer a receita dentro de uma lista ou de um @graph
+const findSchemaRecipe = (data: unknown): Record<string, unknown> | undefined => {
+  if (Array.isArray(data)) return data.map(findSchemaRecipe).find(Boolean);
+  if (!isRecord(data)) return undefined;
+  if (hasType(data, 'Recipe')) return data;
+  return findSchemaRecipe(data['@graph']);
+};
+
+// Passos em texto, HowToStep ou agrupados em HowToSection
+const schemaSteps = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/\n+/).map(stripHtml).filter(Boolean);
+  if (Array.isArray(value)) return value.flatMap(schemaSteps);
+  if (!isRecord(value)) return [];
+  if (value.itemListElement) return schemaSteps(value.itemListElement);
+  return typeof value.text === 'string' ? schemaSteps(value.text) : [];
+};
+
+// "PT1H30M" → minutos
+const parseIsoDuration = (value: unknown) => {
+  const match = typeof value === 'string' ? value.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:\d+S)?)?$/) : null;
+  if (!match) return 0;
+  const [, days, hours, minutes] = match;
+  return Number(days ?? 0) * 1440 + Number(hours ?? 0) * 60 + Number(minutes ?? 0);
+};
+
+const schemaServings = (value: unknown): number | undefined => {
+  const first = Array.isArray(value) ? value[0] : value;
+  const servings = typeof first === 'number' ? first : parseInt(String(first ?? '').match(/\d+/)?.[0] ?? '', 10);
+  return servings >= 1 ? Math.round(servings) : undefined;
+};
+
+// validateRecipe descarta o que não for foto embutida
+const schemaImage = (value: unknown) => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return isRecord(first) ? first.url : first;
+};
+
+// schema.org/Recipe (o que "JSON" exporta e o que sites de receitas publicam) → Recipe
+export const fromSchemaRecipe = (data: unknown): Recipe => {
+  const node = findSchemaRecipe(data);
+  if (!node) throw new RecipeValidationError(['nenhuma receita schema.org encontrada']);
+
+  const minutes = parseIsoDuration(node.totalTime) || parseIsoDuration(node.prepTime) + parseIsoDuration(node.cookTime);
+  const ingredients = Array.isArray(node.recipeIngredient) ? node.recipeIngredient : node.ingredients;
+
+  return validateRecipe({
+    name: typeof node.name === 'string' ? stripHtml(node.name) : node.name,
+    // Sem rendimento informado a receita conta como uma porção
+    servings: schemaServings(node.recipeYield) ?? 1,
+    ingredients: Array.isArray(ingredients)
+      ? ingredients.filter((line): line is string => typeof line === 'string').map(line => parseIngredientText(stripHtml(line)))
+      : [],
+    instructions: schemaSteps(node.recipeInstructions),
+    totalTime: minutes ? `${minutes} min` : MISSING_TIME,
+    ...(typeof node.description === 'string' && node.description.trim() ? { tip: stripHtml(node.description) } : {}),
+    imageUrl: schemaImage(node.image),
+  });
+};
+
+// JSON exportado pelo app (schema.org) ou uma Recipe crua
+export const parseRecipeJson = (text: string): Recipe => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecipeValidationError(['o arquivo não é um JSON válido']);
+  }
+  if (findSchemaRecipe(data)) return fromSchemaRecipe(data);
+  return validateRecipe(data);
+};
+
+// Markdown de "Copiar" / "Compartilhar": os emojis marcam cada parte em qualquer idioma
+export const parseRecipeMarkdown = (text: string): Recipe => {
+  const lines = text.split(/\r?\n/).map(line => line.trim());
+  const end = lines.indexOf('---');
+  let section: 'ingredients' | 'method' | 'other' = 'other';
+  const recipe: Record<string, unknown> = { ingredients: [], instructions: [] };
+
+  for (const line of end === -1 ? lines : lines.slice(0, end)) {
+    if (line.startsWith('# ')) {
+      recipe.name = line.replace(/^#\s+(?:🍳\s*)?/, '');
+    } else if (line.startsWith('## ')) {
+      section = line.includes('🛒') ? 'ingredients' : line.includes('👨') ? 'method' : 'other';
+    } else if (line.startsWith('⏱')) {
+      recipe.totalTime = line.replace(/^⏱\s*(?:\*\*[^*]*\*\*)?\s*/, '');
+    } else if (line.startsWith('🍽')) {
+      recipe.servings = Number(line.match(/\d+/)?.[0]);
+    } else if (line.startsWith('> 💡')) {
+      recipe.tip = line.replace(/^>\s*💡\s*(?:\*\*[^*]*\*\*)?\s*/, '');
+    } else if (section === 'ingredients' && /^[-*•]\s+/.test(line)) {
+      (recipe.ingredients as RecipeIngredient[]).push(parseIngredientText(line));
+    } else if (section === 'method' && /^\d+[.)]\s+/.test(line)) {
+      (recipe.instructions as string[]).push(line.replace(/^\d+[.)]\s+/, ''));
+    }
+  }
+  return validateRecipe(recipe);
+};
+
+export const parseRecipeFile = (text: string): Recipe =>
+  /^\s*[[{]/.test(text) ? parseRecipeJson(text) : parseRecipeMarkdown(text);
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Passa os bytes por um CompressionStream/DecompressionStream; erros de dados corrompidos rejeitam aqui
+const transform = async (bytes: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>) => {
+  const writer = stream.writable.getWriter();
+  const [output] = await Promise.all([new Response(stream.readable).arrayBuffer(), writer.write(bytes), writer.close()]);
+  return new Uint8Array(output);
+};
+
+// Link com a receita comprimida no hash; foto e nutrição ficam de fora para caber em um QR code
+export const encodeRecipeLink = async (recipe: Recipe, baseUrl: string) => {
+  const { imageUrl, nutrition, ...shared } = recipe;
+  const bytes = await transform(new TextEncoder().encode(JSON.stringify(shared)), new CompressionStream('deflate-raw'));
+  const url = new URL(baseUrl);
+  url.hash = `${LINK_PARAM}=${toBase64Url(bytes)}`;
+  return url.toString();
+};
+
+// null quando o link não traz receita; erro quando traz uma receita corrompida
+export const readRecipeLink = async (link: string): Promise<Recipe | null> => {
+  const hash = link.split('#')[1];
+  const encoded = hash && new URLSearchParams(hash).get(LINK_PARAM);
+  if (!encoded) return null;
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw')));
+  } catch {
+    throw new RecipeValidationError(['o link da receita está incompleto']);
+  }
+  return parseRecipeJson(text);
+};
+
+// Texto lido de um QR code: link do app, JSON ou Markdown de receita; null quando não é uma receita
+export const readSharedRecipe = async (text: string): Promise<Recipe | null> => {
+  if (text.includes(`#${LINK_PARAM}=`)) return readRecipeLink(text.trim());
+  if (/^\s*(?:[[{]|# )/.test(text)) return parseRecipeFile(text);
+  return null;
+};
@@ -0,0 +1,97 @@
+import { downscaleImage, loadImageElement } from './image';
+import { RecipeDocument } from './recipeExport';
+
+// A4 em milímetros
+const PAGE_HEIGHT = 297;
+const MARGIN = 18;
+const CONTENT_WIDTH = 210 - MARGIN * 2;
+const MAX_PHOTO_HEIGHT = 90;
+const ORANGE: [number, number, number] = [249, 115, 22];
+const GRAY: [number, number, number] = [156, 163, 175];
+const TEXT: [number, number, number] = [31, 41, 55];
+
+// As fontes padrão do PDF só cobrem Latin-1: frações e símbolos fora dele viram texto simples
+const PDF_REPLACEMENTS: Record<string, string> = { '⅓': '1/3', '⅔': '2/3', '⅛': '1/8', '…': '...', '–': '-', '—': '-', '“': '"', '”': '"', '‘': "'", '’': "'" };
+
+const toPdfText = (text: string) =>
+  text
+    .replace(/[⅓⅔⅛…–—“”‘’]/g, char => PDF_REPLACEMENTS[char])
+    .replace(/[^\n -ÿ•]/g, '')
+    .trim();
+
+// A foto pode ser PNG ou SVG (provider local); vira JPEG para o PDF aceitar e ficar leve
+const loadPhoto = async (src?: string) => {
+  if (!src) return null;
+  try {
+    const image = await loadImageElement(src);
+    return downscaleImage(image, image.naturalWidth, image.naturalHeight);
+  } catch {
+    return null;
+  }
+};
+
+// Gera o PDF no navegador; o jsPDF só é baixado quando alguém exporta
+export const createRecipePdf = async (doc: RecipeDocument): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+
+  const write = (text: string, { size = 11, bold = false, color = TEXT, indent = 0, gap = 1.5 } = {}) => {
+    pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+    pdf.setFontSize(size);
+    pdf.setTextColor(...color);
+    const lineHeight = size * 0.45;
+    for (const line of pdf.splitTextToSize(toPdfText(text), CONTENT_WIDTH - indent) as string[]) {
+      ensureSpace(lineHeight);
+      pdf.text(line, MARGIN + indent, y + lineHeight * 0.8);
+      y += lineHeight;
+    }
+    y += gap;
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(14);
+    y += 4;
+    write(text.toUpperCase(), { size: 9, bold: true, color: GRAY, gap: 2 });
+  };
+
+  write(doc.title, { size: 22, bold: true, gap: 2 });
+  write(doc.meta, { size: 11, bold: true, color: ORANGE, gap: 4 });
+
+  const photo = await loadPhoto(doc.imageUrl);
+  if (photo) {
+    const { width, height } = pdf.getImageProperties(photo.dataUrl);
+    const scale = Math.min(CONTENT_WIDTH / width, MAX_PHOTO_HEIGHT / height);
+    ensureSpace(height * scale);
+    pdf.addImage(photo.dataUrl, 'JPEG', MARGIN + (CONTENT_WIDTH - width * scale) / 2, y, width * scale, height * scale);
+    y += height * scale + 4;
+  }
+
+  heading(doc.ingredientsTitle);
+  doc.ingredients.forEach(ingredient => write(`•  ${ingredient}`, { indent: 2, gap: 0.8 }));
+
+  heading(doc.methodTitle);
+  doc.steps.forEach((step, i) => write(`${i + 1}.  ${step}`, { indent: 2, gap: 2 }));
+
+  if (doc.tip) {
+    heading(doc.tip.title);
+    write(doc.tip.text, { color: [154, 52, 18] });
+  }
+
+  if (doc.nutrition) {
+    heading(doc.nutrition.title);
+    doc.nutrition.rows.forEach(row => write(row, { size: 10, gap: 0.5 }));
+  }
+
+  ensureSpace(12);
+  y += 6;
+  write(doc.footer, { size: 8, color: GRAY });
+
+  return pdf.output('blob');
+};
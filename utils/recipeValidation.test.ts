@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Recipe, RecipeVariation } from '../types';
+import { RecipeValidationError, findUnlistedIngredients, parseRecipeResponse } from './recipeValidation';
+import { parsePartialRecipe } from './partialRecipe';
+import { MAX_VARIATIONS, addVariation, isVariationLimitReached } from './variations';
+
+const RESPONSE = JSON.stringify({
+  name: 'Arroz de Forno',
+  totalTime: '40 minutos',
+  servings: 4,
+  ingredients: [
+    { quantity: 2, unit: 'xícaras', item: 'Arroz cozido' },
+    { quantity: 200, unit: 'gramas', item: 'Frango desfiado' },
+    { quantity: null, unit: null, item: 'Sal' },
+  ],
+  instructions: ['Misture tudo.', 'Asse por 20 minutos.'],
+  tip: 'Cubra com queijo se tiver.',
+});
+
+describe('leitura da resposta do modelo', () => {
+  it('aceita nulos em "a gosto" e padroniza as unidades', () => {
+    const recipe = parseRecipeResponse(RESPONSE);
+    expect(recipe.ingredients).toEqual([
+      { quantity: 2, unit: 'xícara', item: 'Arroz cozido' },
+      { quantity: 200, unit: 'g', item: 'Frango desfiado' },
+      { item: 'Sal' },
+    ]);
+    expect(recipe.servings).toBe(4);
+  });
+
+  it('recusa JSON quebrado e campos obrigatórios ausentes', () => {
+    expect(() => parseRecipeResponse('{"name": "Arroz')).toThrow(RecipeValidationError);
+    try {
+      parseRecipeResponse(JSON.stringify({ name: 'Arroz', servings: 0, ingredients: [], instructions: 'passo' }));
+      expect.unreachable();
+    } catch (err) {
+      expect((err as RecipeValidationError).issues).toEqual([
+        '"servings" deve ser um inteiro positivo',
+        '"ingredients" deve ser uma lista de { quantity, unit, item }',
+        '"instructions" deve ser uma lista de textos',
+        '"totalTime" ausente',
+      ]);
+    }
+  });
+
+  it('extrai o que já chegou de uma resposta em streaming', () => {
+    const partial = parsePartialRecipe(RESPONSE.slice(0, RESPONSE.indexOf('Frango') + 10));
+    expect(partial.name).toBe('Arroz de Forno');
+    expect(partial.totalTime).toBe('40 minutos');
+    expect(partial.ingredients).toEqual([{ quantity: 2, unit: 'xícara', item: 'Arroz cozido' }]);
+    expect(partial.instructions).toBeUndefined();
+  });
+
+  it('aponta ingredientes fora da despensa, ignorando sal, água e óleo', () => {
+    const recipe = parseRecipeResponse(RESPONSE);
+    expect(findUnlistedIngredients(recipe, [{ id: '1', name: 'arroz' }])).toEqual(['Frango desfiado']);
+    expect(findUnlistedIngredients(recipe, [{ id: '1', name: 'arroz' }, { id: '2', name: 'frangos' }])).toEqual([]);
+  });
+});
+
+describe('limite de variações', () => {
+  const variation = (name: string): RecipeVariation => ({
+    recipe: { name } as Recipe,
+    unlistedIngredients: [],
+    entryId: name,
+  });
+
+  it('recomeça a lista na nova busca e acumula as variações', () => {
+    const first = addVariation([], variation('a'), false);
+    const second = addVariation(first, variation('b'), true);
+    expect(second.map(item => item.entryId)).toEqual(['a', 'b']);
+    expect(addVariation(second, variation('c'), false).map(item => item.entryId)).toEqual(['c']);
+  });
+
+  it(`libera ${MAX_VARIATIONS} variações além da receita original`, () => {
+    let variations: RecipeVariation[] = [variation('original')];
+    for (let i = 0; i < MAX_VARIATIONS; i++) {
+      expect(isVariationLimitReached(variations)).toBe(false);
+      variations = addVariation(variations, variation(String(i)), true);
+    }
+    expect(isVariationLimitReached(variations)).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { PantryItem, Recipe, RecipeIngredient } from '../types';
+import { ingredientKey } from './pantry';
+import { canonicalUnit } from './units';
+
+export class RecipeValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Resposta inválida do modelo: ${issues.join('; ')}`);
+    this.name = 'RecipeValidationError';
+  }
+}
+
+// Extras que o prompt de sistema permite usar mesmo sem estarem na lista (também em inglês e espanhol)
+export const IMPLICIT_INGREDIENTS = ['sal', 'agua', 'oleo', 'salt', 'water', 'oil', 'aceite'];
+
+const IGNORED_WORDS = new Set([
+  'de', 'da', 'do', 'das', 'dos', 'com', 'sem', 'a', 'o', 'e', 'em', 'para', 'gosto', 'pitada',
+  'g', 'kg', 'ml', 'l', 'un', 'xicara', 'colher', 'sopa', 'cha', 'lata', 'pacote', 'dente', 'maco', 'duzia',
+  'of', 'with', 'and', 'the', 'to', 'taste', 'pinch', 'cup', 'tbsp', 'tsp', 'can', 'clove',
+  'con', 'sin', 'y', 'al', 'gusto', 'pizca', 'taza', 'cucharada', 'cucharadita', 'diente',
+]);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Só fotos embutidas: uma URL externa seria uma requisição a terceiros e sujaria o canvas do card e do PDF (CORS)
+export const isEmbeddedImage = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image/');
+
+// Aceita `null` nos campos opcionais (o modelo usa para "a gosto") e padroniza a unidade
+export const toRecipeIngredient = (value: unknown): RecipeIngredient | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { item, quantity, unit } = value as Record<string, unknown>;
+  if (!isNonEmptyString(item)) return null;
+  if (quantity != null && (typeof quantity !== 'number' || !(quantity > 0))) return null;
+  if (unit != null && typeof unit !== 'string') return null;
+  const canonical = canonicalUnit(typeof unit === 'string' ? unit : undefined);
+  return {
+    item: item.trim(),
+    ...(typeof quantity === 'number' ? { quantity } : {}),
+    ...(canonical ? { unit: canonical } : {}),
+  };
+};
+
+export const validateRecipe = (data: unknown): Recipe => {
+  if (!data || typeof data !== 'object') {
+    throw new RecipeValidationError(['a resposta não é um objeto']);
+  }
+  const candidate = data as Record<string, unknown>;
+  const issues: string[] = [];
+
+  const ingredients = Array.isArray(candidate.ingredients) ? candidate.ingredients.map(toRecipeIngredient) : [];
+
+  if (!isNonEmptyString(candidate.name)) issues.push('"name" ausente');
+  if (typeof candidate.servings !== 'number' || !Number.isInteger(candidate.servings) || candidate.servings < 1) issues.push('"servings" deve ser um inteiro positivo');
+  if (ingredients.length === 0 || ingredients.includes(null)) issues.push('"ingredients" deve ser uma lista de { quantity, unit, item }');
+  if (!isStringArray(candidate.instructions) || candidate.instructions.length === 0) issues.push('"instructions" deve ser uma lista de textos');
+  if (!isNonEmptyString(candidate.totalTime)) issues.push('"totalTime" ausente');
+  if (candidate.tip !== undefined && typeof candidate.tip !== 'string') issues.push('"tip" deve ser texto');
+
+  if (issues.length) throw new RecipeValidationError(issues);
+  // Campos montados um a um: nada desconhecido vindo de links, QR codes ou arquivos entra na receita
+  return {
+    name: (candidate.name as string).trim(),
+    servings: candidate.servings as number,
+    ingredients: ingredients as RecipeIngredient[],
+    instructions: candidate.instructions as string[],
+    totalTime: (candidate.totalTime as string).trim(),
+    ...(typeof candidate.tip === 'string' && candidate.tip.trim() ? { tip: candidate.tip } : {}),
+    ...(isEmbeddedImage(candidate.imageUrl) ? { imageUrl: candidate.imageUrl } : {}),
+  };
+};
+
+export const parseRecipeResponse = (text: string | undefined): Recipe => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text || '');
+  } catch {
+    throw new RecipeValidationError(['a resposta não é um JSON válido']);
+  }
+  return validateRecipe(data);
+};
+
+// Palavras que identificam o ingrediente, sem unidades, conectivos nem plural
+export const significantWords = (text: string) =>
+  ingredientKey(text)
+    .split(/[^a-z]+/)
+    .filter(word => word.length > 1 && !IGNORED_WORDS.has(word));
+
+// Lista os ingredientes da receita que não correspondem a nenhum item da despensa nem aos extras implícitos
+export const findUnlistedIngredients = (recipe: Recipe, pantry: PantryItem[]): string[] => {
+  const allowed = new Set([...IMPLICIT_INGREDIENTS, ...pantry.flatMap(item => significantWords(item.name))]);
+  return recipe.ingredients
+    .map(ingredient => ingredient.item)
+    .filter(item => {
+      const words = significantWords(item);
+      return words.length > 0 && !words.some(word => allowed.has(word));
+    });
+};
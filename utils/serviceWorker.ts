@@ -0,0 +1,9 @@
+// Registra public/sw.js depois do carregamento, para não disputar banda com o primeiro acesso
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register('/sw.js')
+      .catch(err => console.error('Falha ao registrar o service worker:', err));
+  });
+};
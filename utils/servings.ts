@@ -0,0 +1,55 @@
+import { Recipe, RecipeIngredient } from '../types';
+import { canonicalUnit, roundTo } from './units';
+
+export const MAX_SERVINGS = 20;
+
+const TEASPOONS_PER_SPOON = 3;
+const SPOONS_PER_CUP = 16;
+
+// Converte para a unidade mais legível e arredonda para medidas de cozinha (¼ de xícara, 5 g...)
+export const normalizeAmount = (quantity: number, unit?: string): { quantity: number; unit?: string } => {
+  switch (unit) {
+    case 'g':
+      if (quantity >= 1000) return normalizeAmount(quantity / 1000, 'kg');
+      return { quantity: quantity >= 50 ? roundTo(quantity, 5) : roundTo(quantity, 1), unit };
+    case 'kg':
+      if (quantity < 1) return normalizeAmount(quantity * 1000, 'g');
+      return { quantity: roundTo(quantity, 0.05), unit };
+    case 'ml':
+      if (quantity >= 1000) return normalizeAmount(quantity / 1000, 'l');
+      return { quantity: quantity >= 50 ? roundTo(quantity, 5) : roundTo(quantity, 1), unit };
+    case 'l':
+      if (quantity < 1) return normalizeAmount(quantity * 1000, 'ml');
+      return { quantity: roundTo(quantity, 0.05), unit };
+    case 'colher de chá':
+      if (quantity >= TEASPOONS_PER_SPOON) return normalizeAmount(quantity / TEASPOONS_PER_SPOON, 'colher de sopa');
+      return { quantity: roundTo(quantity, 0.25), unit };
+    case 'colher de sopa':
+      if (quantity >= 4) return normalizeAmount(quantity / SPOONS_PER_CUP, 'xícara');
+      if (quantity < 0.5) return normalizeAmount(quantity * TEASPOONS_PER_SPOON, 'colher de chá');
+      return { quantity: roundTo(quantity, 0.5), unit };
+    case 'xícara':
+      if (quantity < 0.25) return normalizeAmount(quantity * SPOONS_PER_CUP, 'colher de sopa');
+      return { quantity: roundTo(quantity, 0.25), unit };
+    default:
+      // Itens contáveis (ovos, dentes, latas): meias unidades só em quantidades pequenas
+      if (quantity < 1) return { quantity: roundTo(quantity, 0.25), unit };
+      return { quantity: quantity < 3 ? roundTo(quantity, 0.5) : Math.round(quantity), unit };
+  }
+};
+
+export const scaleIngredient = (ingredient: RecipeIngredient, factor: number): RecipeIngredient => {
+  if (ingredient.quantity === undefined) return ingredient;
+  const { quantity, unit } = normalizeAmount(ingredient.quantity * factor, canonicalUnit(ingredient.unit));
+  return { ...ingredient, quantity, ...(unit ? { unit } : {}) };
+};
+
+export const scaleRecipe = (recipe: Recipe, servings: number): Recipe => {
+  if (servings === recipe.servings) return recipe;
+  const factor = servings / recipe.servings;
+  return {
+    ...recipe,
+    servings,
+    ingredients: recipe.ingredients.map(ingredient => scaleIngredient(ingredient, factor)),
+  };
+};
@@ -0,0 +1,17 @@
+// Leitura/escrita em localStorage tolerante a JSON corrompido e navegação privada
+export const loadJSON = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveJSON = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Falha ao salvar ${key}:`, err);
+  }
+};
@@ -0,0 +1,8 @@
+// Remove acentos e padroniza caixa/espaços para comparações e buscas
+export const normalizeText = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
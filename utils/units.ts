@@ -0,0 +1,180 @@
+import { RecipeIngredient } from '../types';
+import { Language, UnitSystem } from '../i18n/languages';
+import { normalizeText } from './text';
+
+// Apelido (sem acento, minúsculo) → unidade canônica usada na despensa e nas receitas
+const UNIT_ALIASES: Record<string, string> = {
+  g: 'g', grama: 'g', gramas: 'g',
+  kg: 'kg', quilo: 'kg', quilos: 'kg',
+  ml: 'ml', mililitro: 'ml', mililitros: 'ml',
+  l: 'l', litro: 'l', litros: 'l',
+  un: 'un', unidade: 'un', unidades: 'un',
+  duzia: 'dúzia', duzias: 'dúzia',
+  xicara: 'xícara', xicaras: 'xícara', 'xicara de cha': 'xícara', 'xicaras de cha': 'xícara', 'xicara (cha)': 'xícara', 'xicaras (cha)': 'xícara',
+  colher: 'colher de sopa', colheres: 'colher de sopa',
+  'colher de sopa': 'colher de sopa', 'colheres de sopa': 'colher de sopa', 'colher (sopa)': 'colher de sopa', 'colheres (sopa)': 'colher de sopa',
+  'colher de cha': 'colher de chá', 'colheres de cha': 'colher de chá', 'colher (cha)': 'colher de chá', 'colheres (cha)': 'colher de chá',
+  lata: 'lata', latas: 'lata',
+  pacote: 'pacote', pacotes: 'pacote',
+  dente: 'dente', dentes: 'dente',
+  maco: 'maço', macos: 'maço',
+  pitada: 'pitada', pitadas: 'pitada',
+  fatia: 'fatia', fatias: 'fatia',
+  // Inglês
+  gram: 'g', grams: 'g', kilo: 'kg', kilos: 'kg', kilogram: 'kg', kilograms: 'kg',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml',
+  unit: 'un', units: 'un', dozen: 'dúzia',
+  cup: 'xícara', cups: 'xícara',
+  tbsp: 'colher de sopa', tablespoon: 'colher de sopa', tablespoons: 'colher de sopa',
+  tsp: 'colher de chá', teaspoon: 'colher de chá', teaspoons: 'colher de chá',
+  can: 'lata', cans: 'lata', package: 'pacote', packages: 'pacote', pack: 'pacote',
+  clove: 'dente', cloves: 'dente', bunch: 'maço', bunches: 'maço',
+  pinch: 'pitada', pinches: 'pitada', slice: 'fatia', slices: 'fatia',
+  // Receitas importadas de sites americanos (ver utils/recipeImport.ts)
+  oz: 'oz', ounce: 'oz', ounces: 'oz', lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  // Espanhol
+  gramo: 'g', gramos: 'g',
+  unidad: 'un', ud: 'un', uds: 'un', docena: 'dúzia', docenas: 'dúzia',
+  taza: 'xícara', tazas: 'xícara',
+  cucharada: 'colher de sopa', cucharadas: 'colher de sopa',
+  cucharadita: 'colher de chá', cucharaditas: 'colher de chá',
+  paquete: 'pacote', paquetes: 'pacote', diente: 'dente', dientes: 'dente',
+  manojo: 'maço', manojos: 'maço', pizca: 'pitada', pizcas: 'pitada',
+  rebanada: 'fatia', rebanadas: 'fatia',
+  onza: 'oz', onzas: 'oz', libra: 'lb', libras: 'lb',
+};
+
+// Nome exibido de cada unidade canônica: [singular, plural]
+const UNIT_NAMES: Record<Language, Record<string, [string, string]>> = {
+  'pt-BR': {
+    'xícara': ['xícara', 'xícaras'],
+    'colher de sopa': ['colher de sopa', 'colheres de sopa'],
+    'colher de chá': ['colher de chá', 'colheres de chá'],
+    'dúzia': ['dúzia', 'dúzias'],
+    lata: ['lata', 'latas'],
+    pacote: ['pacote', 'pacotes'],
+    dente: ['dente', 'dentes'],
+    'maço': ['maço', 'maços'],
+    pitada: ['pitada', 'pitadas'],
+    fatia: ['fatia', 'fatias'],
+  },
+  en: {
+    un: ['unit', 'units'],
+    'xícara': ['cup', 'cups'],
+    'colher de sopa': ['tbsp', 'tbsp'],
+    'colher de chá': ['tsp', 'tsp'],
+    'dúzia': ['dozen', 'dozen'],
+    lata: ['can', 'cans'],
+    pacote: ['package', 'packages'],
+    dente: ['clove', 'cloves'],
+    'maço': ['bunch', 'bunches'],
+    pitada: ['pinch', 'pinches'],
+    fatia: ['slice', 'slices'],
+  },
+  es: {
+    un: ['ud.', 'uds.'],
+    'xícara': ['taza', 'tazas'],
+    'colher de sopa': ['cucharada', 'cucharadas'],
+    'colher de chá': ['cucharadita', 'cucharaditas'],
+    'dúzia': ['docena', 'docenas'],
+    lata: ['lata', 'latas'],
+    pacote: ['paquete', 'paquetes'],
+    dente: ['diente', 'dientes'],
+    'maço': ['manojo', 'manojos'],
+    pitada: ['pizca', 'pizcas'],
+    fatia: ['rebanada', 'rebanadas'],
+  },
+};
+
+// Em inglês medidas vêm direto antes do item ("2 cups flour"); recipientes pedem "of" ("1 can of tomatoes")
+const ENGLISH_OF_UNITS = new Set(['dúzia', 'lata', 'pacote', 'maço', 'pitada', 'fatia']);
+
+const connector = (unit: string, language: Language) => {
+  if (language !== 'en') return 'de';
+  return ENGLISH_OF_UNITS.has(unit) ? 'of' : undefined;
+};
+
+// Unidades listadas no prompt para o modelo responder já no formato canônico
+export const CANONICAL_UNITS = ['g', 'kg', 'ml', 'l', 'xícara', 'colher de sopa', 'colher de chá', 'un', 'dente', 'lata', 'pitada', 'fatia'];
+
+// Unidade canônica de um apelido conhecido; undefined quando o texto não é uma unidade
+export const knownUnit = (text: string): string | undefined => UNIT_ALIASES[normalizeText(text).replace(/\.$/, '')];
+
+export const canonicalUnit = (unit?: string) => {
+  if (!unit?.trim()) return undefined;
+  return knownUnit(unit) ?? unit.trim();
+};
+
+// Reconhece a unidade no começo do texto: "colheres de sopa de açúcar" → colher de sopa + "açúcar"
+export const matchLeadingUnit = (text: string): { unit: string; rest: string } | null => {
+  const words = text.trim().split(/\s+/);
+  for (let size = 3; size > 0; size--) {
+    const unit = knownUnit(words.slice(0, size).join(' '));
+    if (unit && words.length > size) {
+      return { unit, rest: words.slice(size).join(' ').replace(/^(?:de|of)\s+/i, '') };
+    }
+  }
+  return null;
+};
+
+export const unitLabel = (unit: string, quantity = 1, language: Language = 'pt-BR') => {
+  const names = UNIT_NAMES[language][unit];
+  if (!names) return unit;
+  return quantity > 1 ? names[1] : names[0];
+};
+
+const FRACTIONS: [number, string][] = [[1 / 4, '¼'], [1 / 3, '⅓'], [1 / 2, '½'], [2 / 3, '⅔'], [3 / 4, '¾']];
+
+export const formatQuantity = (quantity: number, language: Language = 'pt-BR') => {
+  const whole = Math.floor(quantity);
+  const fraction = quantity - whole;
+  if (fraction < 0.01) return String(whole);
+  const glyph = FRACTIONS.find(([value]) => Math.abs(value - fraction) < 0.02);
+  if (glyph) return whole ? `${whole} ${glyph[1]}` : glyph[1];
+  return quantity.toLocaleString(language, { maximumFractionDigits: 2 });
+};
+
+const GRAMS_PER_OUNCE = 28.35;
+const OUNCES_PER_POUND = 16;
+const ML_PER_CUP = 236.6;
+const ML_PER_TABLESPOON = 14.8;
+const ML_PER_TEASPOON = 4.9;
+
+// Arredonda para o múltiplo de `step` mais próximo, sem chegar a zero
+export const roundTo = (value: number, step: number) => Math.max(step, Math.round(value / step) * step);
+
+// Massa vira onças/libras e volume vira xícaras/colheres; xícaras e colheres já são medidas americanas
+const toUsCustomary = (ingredient: RecipeIngredient): RecipeIngredient => {
+  const { quantity, unit } = ingredient;
+  if (quantity === undefined) return ingredient;
+  if (unit === 'g' || unit === 'kg') {
+    const ounces = (unit === 'kg' ? quantity * 1000 : quantity) / GRAMS_PER_OUNCE;
+    if (ounces >= OUNCES_PER_POUND) return { ...ingredient, quantity: roundTo(ounces / OUNCES_PER_POUND, 0.25), unit: 'lb' };
+    return { ...ingredient, quantity: roundTo(ounces, ounces < 1 ? 0.25 : 0.5), unit: 'oz' };
+  }
+  if (unit === 'ml' || unit === 'l') {
+    const ml = unit === 'l' ? quantity * 1000 : quantity;
+    if (ml >= ML_PER_CUP / 4) return { ...ingredient, quantity: roundTo(ml / ML_PER_CUP, 0.25), unit: 'xícara' };
+    if (ml >= ML_PER_TABLESPOON) return { ...ingredient, quantity: roundTo(ml / ML_PER_TABLESPOON, 0.5), unit: 'colher de sopa' };
+    return { ...ingredient, quantity: roundTo(ml / ML_PER_TEASPOON, 0.25), unit: 'colher de chá' };
+  }
+  return ingredient;
+};
+
+export interface IngredientFormat {
+  language: Language;
+  unitSystem: UnitSystem;
+}
+
+// Padrão dos prompts e dos textos internos: português e unidades como o modelo devolveu
+const PROMPT_FORMAT: IngredientFormat = { language: 'pt-BR', unitSystem: 'metric' };
+
+export const formatIngredient = (ingredient: RecipeIngredient, { language, unitSystem }: IngredientFormat = PROMPT_FORMAT) => {
+  const { quantity, unit, item } = unitSystem === 'us' ? toUsCustomary(ingredient) : ingredient;
+  // "un" é implícita: "3 ovos" em vez de "3 un de ovos"
+  const shownUnit = unit && unit !== 'un' ? unit : undefined;
+  if (quantity === undefined) return shownUnit ? `${item} (${unitLabel(shownUnit, 1, language)})` : item;
+  return [formatQuantity(quantity, language), shownUnit && unitLabel(shownUnit, quantity, language), shownUnit && connector(shownUnit, language), item]
+    .filter(Boolean)
+    .join(' ');
+};
@@ -0,0 +1,10 @@
+import { RecipeVariation } from '../types';
+
+// Além da receita original, quantas ideias diferentes a mesma despensa pode pedir
+export const MAX_VARIATIONS = 3;
+
+export const isVariationLimitReached = (variations: RecipeVariation[]) => variations.length > MAX_VARIATIONS;
+
+// Uma nova busca recomeça a lista; uma variação entra depois das anteriores
+export const addVariation = (variations: RecipeVariation[], variation: RecipeVariation, isVariation: boolean) =>
+  isVariation ? [...variations, variation] : [variation];
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiPlugin } from './server/vitePlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +10,11 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      // A chave do Gemini fica só no servidor: nada de GEMINI_API_KEY no define
+      plugins: [react(), apiPlugin(env)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.RECIPE_PROVIDER': JSON.stringify(env.RECIPE_PROVIDER),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL)
       },
       resolve: {
         alias: {